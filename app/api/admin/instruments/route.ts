@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { describeUpstreamError } from '@/lib/upstoxClient';
+import {
+    InstrumentDiff,
+    InstrumentFileError,
+    incomingFile,
+    ingestInstrumentFile,
+    readDiff,
+    readManifest
+} from '@/lib/instrumentIngest';
+import {
+    errorResponse,
+    instrumentIngestSchema,
+    instrumentVersionsSchema,
+    invalidBodyResponse,
+    jsonInput,
+    parseInput,
+    queryInput,
+    validationErrorResponse
+} from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Entries returned per diff list; the full diff stays in data/instruments/diffs
+const MAX_DIFF_ENTRIES = 200;
+
+/**
+ * Admin-only: requests must send `Authorization: Bearer <ADMIN_TOKEN>`.
+ * Returns an error response, or null when the caller is allowed through.
+ */
+function checkAdmin(request: NextRequest): NextResponse | null {
+    const adminToken = process.env.ADMIN_TOKEN;
+
+    if (!adminToken) {
+        return errorResponse(503, 'SERVER_MISCONFIGURED', 'Admin API is disabled: ADMIN_TOKEN is not set');
+    }
+
+    const supplied = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
+    // Compare digests so the check takes the same time whatever the length
+    const matches = crypto.timingSafeEqual(
+        crypto.createHash('sha256').update(supplied).digest(),
+        crypto.createHash('sha256').update(adminToken).digest()
+    );
+
+    return matches ? null : errorResponse(403, 'FORBIDDEN', 'Invalid admin token');
+}
+
+function truncateDiff(diff: InstrumentDiff) {
+    const cap = <T>(list: T[]) => list.slice(0, MAX_DIFF_ENTRIES);
+    return {
+        ...diff,
+        added: cap(diff.added),
+        delisted: cap(diff.delisted),
+        keyChanged: cap(diff.keyChanged),
+        renamed: cap(diff.renamed),
+        truncated: [diff.added, diff.delisted, diff.keyChanged, diff.renamed].some(l => l.length > MAX_DIFF_ENTRIES)
+    };
+}
+
+/**
+ * Snapshot history and the diff report for one version (default: the current one)
+ *
+ * Query Parameters:
+ * - version: Snapshot version, e.g. 20241031T021500Z-3fa9c2d1
+ *
+ * Response: { current, snapshots: [...], diff }
+ */
+export async function GET(request: NextRequest) {
+    const denied = checkAdmin(request);
+    if (denied) return denied;
+
+    const parsed = parseInput(instrumentVersionsSchema, queryInput(request));
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
+    }
+
+    const manifest = await readManifest();
+    const version = parsed.value.version || manifest.current;
+    const diff = version ? await readDiff(version) : null;
+
+    return NextResponse.json({
+        ...manifest,
+        diff: diff ? truncateDiff(diff) : null
+    }, {
+        headers: { 'Cache-Control': 'no-store' }
+    });
+}
+
+/**
+ * Ingest a new instrument master (see lib/instrumentIngest.ts)
+ *
+ * Body: { source?: 'upstox' | 'file', file?: string, force?: boolean }
+ * - source 'upstox' (default) downloads Upstox's daily complete.json.gz
+ * - source 'file' reads `file` from data/instruments/incoming
+ * - force accepts a file that would delist more than 10% of symbols
+ *
+ * Response: { unchanged, snapshot, diff }
+ */
+export async function POST(request: NextRequest) {
+    const denied = checkAdmin(request);
+    if (denied) return denied;
+
+    const body = await jsonInput(request);
+
+    if (!body) {
+        return invalidBodyResponse();
+    }
+
+    const parsed = parseInput(instrumentIngestSchema, {
+        ...body,
+        force: typeof body.force === 'boolean' ? String(body.force) : body.force
+    });
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
+    }
+
+    const { source, file, force } = parsed.value;
+
+    try {
+        const result = await ingestInstrumentFile(
+            source === 'file' ? { kind: 'file', filePath: incomingFile(file!) } : { kind: 'upstox' },
+            { force: force === 'true' }
+        );
+
+        return NextResponse.json({
+            ...result,
+            diff: result.diff ? truncateDiff(result.diff) : null
+        });
+    } catch (error: any) {
+        if (error instanceof InstrumentFileError) {
+            console.error('✗ [instruments] Rejected:', error.issues.join('; '));
+            return errorResponse(422, 'INVALID_INSTRUMENT_FILE', error.message, {
+                details: error.issues.map(message => ({ field: 'file', message }))
+            });
+        }
+
+        if (error.code === 'ENOENT') {
+            return validationErrorResponse([{ field: 'file', message: 'was not found in the incoming directory' }]);
+        }
+
+        if (error.isAxiosError) {
+            const { status, code, message, ...extra } = describeUpstreamError(error, 'Instrument file download failed');
+            // The CDN's own 4xx/5xx is a gateway failure from the caller's point of view
+            return errorResponse(code === 'UPSTREAM_ERROR' ? 502 : status, code, message, extra);
+        }
+
+        console.error('Instrument ingestion failed:', error);
+        return errorResponse(500, 'INTERNAL_ERROR', error.message || 'Instrument ingestion failed');
+    }
+}
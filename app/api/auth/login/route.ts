@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setOAuthState } from '@/lib/session';
+import { UPSTOX_BASE_URL } from '@/lib/upstoxClient';
+import { errorResponse, loginSchema, parseInput, queryInput, validationErrorResponse } from '@/lib/validation';
+
+/**
+ * Start of the OAuth login popup.
+ * Binds the client-generated `state` to this browser with an httpOnly cookie,
+ * then redirects to the Upstox authorization dialog with the same state.
+ *
+ * Query Parameters:
+ * - state: Random hex string generated per login attempt
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseInput(loginSchema, queryInput(request));
+
+  if (!parsed.ok) {
+    return validationErrorResponse(parsed.issues);
+  }
+
+  const { state } = parsed.value;
+
+  const apiKey = process.env.NEXT_PUBLIC_UPSTOX_API_KEY;
+  const redirectUri = process.env.NEXT_PUBLIC_REDIRECT_URI || `${request.nextUrl.origin}/callback`;
+
+  if (!apiKey) {
+    return errorResponse(500, 'SERVER_MISCONFIGURED', 'Server configuration error', { details: { hasApiKey: false } });
+  }
+
+  const authUrl = new URL(`${UPSTOX_BASE_URL}/v2/login/authorization/dialog`);
+  authUrl.searchParams.set('response_type', 'code');
+  authUrl.searchParams.set('client_id', apiKey);
+  authUrl.searchParams.set('redirect_uri', redirectUri);
+  authUrl.searchParams.set('state', state);
+
+  const response = NextResponse.redirect(authUrl.toString());
+  setOAuthState(response, state);
+
+  return response;
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UpstoxProfile, clearSession, describeSession, getSession, removeProfile, saveSession } from '@/lib/session';
+import { upstoxRequest } from '@/lib/upstoxClient';
+import { errorResponse, jsonInput, logoutSchema, parseInput, validationErrorResponse } from '@/lib/validation';
+
+/**
+ * Revoke a profile's access token at Upstox
+ */
+async function revokeToken(profile: UpstoxProfile) {
+    try {
+        await upstoxRequest({
+            endpoint: 'logout',
+            method: 'DELETE',
+            path: '/v2/logout',
+            accessToken: profile.accessToken
+        });
+
+        return { profile: profile.id, revoked: true };
+    } catch (error: any) {
+        // A token Upstox already rejects is as good as revoked
+        if (error.response?.status === 401) {
+            return { profile: profile.id, revoked: true };
+        }
+
+        return {
+            profile: profile.id,
+            revoked: false,
+            error: error.response?.data?.errors?.[0]?.message || error.message
+        };
+    }
+}
+
+/**
+ * Logout: revoke the Upstox token(s) server-side and clear them from the session.
+ * The local session is cleared even if Upstox can't be reached.
+ *
+ * Body:
+ * - profile: Profile id, or 'all' to log out every account (defaults to the active profile)
+ */
+export async function POST(request: NextRequest) {
+    const session = getSession(request);
+
+    if (!session) {
+        const response = NextResponse.json({ ...describeSession(null), revoked: [] });
+        clearSession(response);
+        return response;
+    }
+
+    // An empty body is fine - it means "log out the active profile"
+    const parsed = parseInput(logoutSchema, (await jsonInput(request)) || {});
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
+    }
+
+    const target = parsed.value.profile || session.activeProfileId;
+
+    const profiles = target === 'all'
+        ? session.profiles
+        : session.profiles.filter(p => p.id === target);
+
+    if (profiles.length === 0) {
+        return errorResponse(404, 'UNKNOWN_PROFILE', `Unknown profile: ${target}`);
+    }
+
+    const revoked = await Promise.all(profiles.map(revokeToken));
+
+    let remaining: typeof session | null = session;
+    for (const profile of profiles) {
+        remaining = remaining ? removeProfile(remaining, profile.id) : null;
+    }
+
+    const response = NextResponse.json({ ...describeSession(remaining), revoked });
+    saveSession(response, remaining);
+
+    return response;
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeSession, getSession, setSession, unauthenticatedResponse } from '@/lib/session';
+import { errorResponse, invalidBodyResponse, jsonInput, parseInput, switchProfileSchema, validationErrorResponse } from '@/lib/validation';
+
+/**
+ * Session status for the browser.
+ * Never returns access tokens - only whether a valid session exists and
+ * which Upstox account profiles it holds.
+ */
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+
+  return NextResponse.json(describeSession(session));
+}
+
+/**
+ * Switch the active profile
+ *
+ * Body:
+ * - profile: Profile id (Upstox user_id) to make active
+ */
+export async function POST(request: NextRequest) {
+  const session = getSession(request);
+
+  if (!session) {
+    return unauthenticatedResponse();
+  }
+
+  const body = await jsonInput(request);
+
+  if (!body) {
+    return invalidBodyResponse();
+  }
+
+  const parsed = parseInput(switchProfileSchema, body);
+
+  if (!parsed.ok) {
+    return validationErrorResponse(parsed.issues);
+  }
+
+  const profileId = parsed.value.profile;
+
+  if (!session.profiles.some(p => p.id === profileId)) {
+    return errorResponse(404, 'UNKNOWN_PROFILE', `Unknown profile: ${profileId}`);
+  }
+
+  const updated = { ...session, activeProfileId: profileId };
+  const response = NextResponse.json(describeSession(updated));
+  setSession(response, updated);
+
+  return response;
+}
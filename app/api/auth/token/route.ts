@@ -1,20 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { addProfile, clearOAuthState, getSession, setSession, verifyOAuthState } from '@/lib/session';
+import { upstoxRequest } from '@/lib/upstoxClient';
+import { errorResponse, invalidBodyResponse, jsonInput, parseInput, tokenSchema, validationErrorResponse } from '@/lib/validation';
 
 export async function POST(request: NextRequest) {
   try {
     // Parse request body
-    const body = await request.json();
-    const { code } = body;
+    const body = await jsonInput(request);
+
+    if (!body) {
+      return invalidBodyResponse();
+    }
+
+    const parsed = parseInput(tokenSchema, body);
 
     console.log('=== TOKEN EXCHANGE START ===');
-    console.log('Received code length:', code?.length || 0);
 
-    if (!code) {
-      console.error('No code provided');
-      return NextResponse.json(
-        { error: 'Authorization code is required' },
-        { status: 400 }
-      );
+    if (!parsed.ok) {
+      console.error('Invalid token request:', parsed.issues);
+      return validationErrorResponse(parsed.issues);
+    }
+
+    const { code, state } = parsed.value;
+    console.log('Received code length:', code.length);
+
+    // Reject codes that don't belong to a login this browser started (login CSRF)
+    if (!verifyOAuthState(request, state)) {
+      console.error('OAuth state mismatch - rejecting token exchange');
+      const stateResponse = errorResponse(403, 'INVALID_STATE', 'OAuth state mismatch', {
+        message: 'This login was not started from this browser. Please start the login again.'
+      });
+      clearOAuthState(stateResponse);
+      return stateResponse;
     }
 
     // Get environment variables
@@ -33,17 +50,13 @@ export async function POST(request: NextRequest) {
 
     if (!apiKey || !apiSecret || !redirectUri) {
       console.error('Missing environment variables!');
-      return NextResponse.json(
-        { 
-          error: 'Server configuration error',
-          details: {
-            hasApiKey: !!apiKey,
-            hasApiSecret: !!apiSecret,
-            hasRedirectUri: !!redirectUri
-          }
-        },
-        { status: 500 }
-      );
+      return errorResponse(500, 'SERVER_MISCONFIGURED', 'Server configuration error', {
+        details: {
+          hasApiKey: !!apiKey,
+          hasApiSecret: !!apiSecret,
+          hasRedirectUri: !!redirectUri
+        }
+      });
     }
 
     // Prepare form data
@@ -62,78 +75,75 @@ export async function POST(request: NextRequest) {
       code_length: code.length
     });
 
-    // Make request to Upstox
-    const tokenUrl = 'https://api.upstox.com/v2/login/authorization/token';
-    
-    const response = await fetch(tokenUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Accept': 'application/json'
-      },
-      body: params.toString()
-    });
-
-    console.log('Upstox response status:', response.status);
-    console.log('Upstox response headers:', Object.fromEntries(response.headers.entries()));
-
-    // Get response text first
-    const responseText = await response.text();
-    console.log('Upstox response text length:', responseText.length);
-    console.log('Upstox response text (first 200 chars):', responseText.substring(0, 200));
-
-    // Try to parse as JSON
-    let data;
+    // Make request to Upstox - never retried, authorization codes are single-use
+    let response;
     try {
-      data = JSON.parse(responseText);
-      console.log('Parsed response data:', data);
-    } catch (parseError) {
-      console.error('Failed to parse response as JSON:', parseError);
-      console.error('Raw response:', responseText);
-      return NextResponse.json(
-        { 
-          error: 'Invalid response from Upstox',
-          details: 'Response is not valid JSON',
-          rawResponse: responseText.substring(0, 500)
-        },
-        { status: 500 }
-      );
+      response = await upstoxRequest({
+        endpoint: 'token',
+        method: 'POST',
+        path: '/v2/login/authorization/token',
+        data: params.toString(),
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      });
+    } catch (upstreamError: any) {
+      if (!upstreamError.response) throw upstreamError;
+
+      const errorData = upstreamError.response.data || {};
+      console.error('Upstox returned error:', errorData);
+      return errorResponse(upstreamError.response.status, 'TOKEN_EXCHANGE_FAILED', errorData.error || 'Token exchange failed', {
+        message: errorData.error_description || errorData.errors?.[0]?.message || errorData.message || 'Unknown error',
+        upstoxStatus: upstreamError.response.status,
+        details: errorData
+      });
     }
 
-    // Check if request was successful
-    if (!response.ok) {
-      console.error('Upstox returned error:', data);
-      return NextResponse.json(
-        {
-          error: data.error || 'Token exchange failed',
-          message: data.error_description || data.message || 'Unknown error',
-          status: response.status,
-          details: data
-        },
-        { status: response.status }
-      );
+    const data = response.data;
+
+    // Anything other than a JSON object is not a usable token response
+    if (!data || typeof data !== 'object') {
+      console.error('Upstox response is not JSON:', String(data).substring(0, 200));
+      return errorResponse(502, 'UPSTREAM_ERROR', 'Invalid response from Upstox', {
+        message: 'Response is not valid JSON',
+        rawResponse: String(data).substring(0, 500)
+      });
     }
 
     // Check if we have access token
     if (!data.access_token) {
       console.error('No access token in response:', data);
-      return NextResponse.json(
-        { 
-          error: 'No access token received',
-          details: data
-        },
-        { status: 500 }
-      );
+      return errorResponse(502, 'TOKEN_EXCHANGE_FAILED', 'No access token received', { details: data });
     }
 
     console.log('✓ Token obtained successfully');
     console.log('Token length:', data.access_token.length);
     console.log('Expires in:', data.expires_in);
 
-    return NextResponse.json({
-      access_token: data.access_token,
-      expires_in: data.expires_in || 86400
+    const expiresIn = data.expires_in || 86400;
+    const expiresAt = Date.now() + expiresIn * 1000;
+
+    // Each Upstox account becomes a profile; logging in again adds or refreshes one
+    const session = addProfile(getSession(request), {
+      id: data.user_id || 'default',
+      name: data.user_name || data.email || data.user_id || 'Upstox Account',
+      accessToken: data.access_token,
+      createdAt: Date.now(),
+      expiresAt
+    });
+
+    // Keep the token server-side: the browser only gets the encrypted cookie
+    const tokenResponse = NextResponse.json({
+      authenticated: true,
+      expires_in: expiresIn,
+      expires_at: expiresAt,
+      profile: {
+        id: session.activeProfileId,
+        name: session.profiles[session.profiles.length - 1].name
+      }
     });
+    setSession(tokenResponse, session);
+    clearOAuthState(tokenResponse);
+
+    return tokenResponse;
 
   } catch (error: any) {
     console.error('=== TOKEN EXCHANGE ERROR ===');
@@ -141,13 +151,18 @@ export async function POST(request: NextRequest) {
     console.error('Error message:', error.message);
     console.error('Error stack:', error.stack);
 
-    return NextResponse.json(
-      { 
-        error: 'Internal server error',
-        message: error.message,
-        type: error.constructor.name
-      },
-      { status: 500 }
-    );
+    // Timeouts and network failures reaching Upstox
+    if (error.isAxiosError) {
+      return errorResponse(
+        error.code === 'ECONNABORTED' ? 504 : 502,
+        error.code === 'ECONNABORTED' ? 'UPSTREAM_TIMEOUT' : 'UPSTREAM_UNAVAILABLE',
+        error.message
+      );
+    }
+
+    return errorResponse(500, 'INTERNAL_ERROR', 'Internal server error', {
+      message: error.message,
+      type: error.constructor.name
+    });
   }
 }
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getHealthReport } from '@/lib/metrics';
+import { UPSTOX_BASE_URL } from '@/lib/upstoxClient';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Liveness plus a quick read on Upstox, from the proxy's recent upstream calls.
+ * `upstream.status` is degraded when at least half of the last 50 attempts failed
+ * with a 5xx, timeout or network error; 4xx answers (bad input, dead tokens) don't count.
+ * Always 200 while the proxy itself is up - an Upstox outage isn't a reason to restart it.
+ * No session required; nothing here is user-specific.
+ */
+export async function GET() {
+    return NextResponse.json({
+        ...getHealthReport(),
+        upstoxBaseUrl: UPSTOX_BASE_URL
+    }, {
+        headers: { 'Cache-Control': 'no-store' }
+    });
+}
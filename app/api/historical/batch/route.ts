@@ -0,0 +1,111 @@
+import { NextRequest } from 'next/server';
+import { getSessionProfile, unauthenticatedResponse } from '@/lib/session';
+import { runHistoricalBatch } from '@/lib/historicalBatch';
+import { historicalBatchSchema, invalidBodyResponse, jsonInput, parseInput, validationErrorResponse } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Historical candles for many instruments, streamed as NDJSON (one JSON object per line).
+ * Instruments are fetched server-side with rate-aware concurrency (see lib/historicalBatch.ts)
+ * and written as each finishes, so lines arrive in completion order - use `index` to map back.
+ * `index` is the position in `instruments` as sent; a repeated key gets a line per position.
+ * If the client goes away the run still finishes, leaving the candles in the on-disk cache.
+ *
+ * Body: { instruments: string[] | string, unit, interval, fromDate, toDate, includeToday? }
+ * Same rules as GET /api/historical; at most 500 instruments.
+ *
+ * Lines:
+ * - { type: 'result', index, instrumentKey, status: 'ok', candles, meta }
+ * - { type: 'result', index, instrumentKey, status: 'failed', error, code }
+ * - { type: 'done', total, succeeded, failed, elapsedMs } - always last on success
+ * - { type: 'error', error, code } - the run stopped (e.g. SESSION_EXPIRED); nothing follows
+ */
+export async function POST(request: NextRequest) {
+    const profile = getSessionProfile(request);
+
+    if (!profile) {
+        return unauthenticatedResponse();
+    }
+
+    const body = await jsonInput(request);
+
+    if (!body) {
+        return invalidBodyResponse();
+    }
+
+    const instruments = Array.isArray(body.instruments)
+        ? body.instruments.filter((k): k is string => typeof k === 'string').join(',')
+        : body.instruments;
+
+    const parsed = parseInput(historicalBatchSchema, {
+        ...body,
+        instruments,
+        includeToday: typeof body.includeToday === 'boolean' ? String(body.includeToday) : body.includeToday
+    });
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
+    }
+
+    const { instruments: keys, includeToday, ...range } = parsed.value;
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            let open = true;
+
+            const writeLine = (line: Record<string, unknown>) => {
+                if (!open) return;
+                try {
+                    controller.enqueue(encoder.encode(JSON.stringify(line) + '\n'));
+                } catch {
+                    // Client disconnected - keep fetching so the cache still fills
+                    open = false;
+                }
+            };
+
+            try {
+                const summary = await runHistoricalBatch(
+                    {
+                        accessToken: profile.accessToken,
+                        // Not de-duplicated: each result's index must match the client's list
+                        instrumentKeys: keys.split(',').map(k => k.trim()),
+                        includeToday: includeToday === 'true',
+                        ...range
+                    },
+                    result => writeLine({ type: 'result', ...result })
+                );
+                console.log(`✓ [batch] ${summary.succeeded}/${summary.total} instruments in ${summary.elapsedMs}ms`);
+                writeLine({ type: 'done', ...summary });
+            } catch (error: any) {
+                // Headers are already sent, so the session cookie can't be cleared here;
+                // the next regular /api call drops the profile
+                if (error.response?.status === 401) {
+                    writeLine({
+                        type: 'error',
+                        code: 'SESSION_EXPIRED',
+                        error: 'Upstox session expired. Please login again.',
+                        profile: profile.id
+                    });
+                } else {
+                    console.error(`✗ [batch] ${error.message}`);
+                    writeLine({ type: 'error', code: 'INTERNAL_ERROR', error: error.message || 'Batch failed' });
+                }
+            }
+
+            if (open) {
+                try { controller.close(); } catch { /* already closed by the client */ }
+            }
+        }
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            'X-Accel-Buffering': 'no'
+        }
+    });
+}
@@ -1,144 +1,100 @@
 import { NextRequest, NextResponse } from 'next/server';
-import axios from 'axios';
+import { getSessionProfile, unauthenticatedResponse } from '@/lib/session';
+import { upstreamErrorResponse } from '@/lib/upstoxClient';
+import { HistoricalCandleRequest } from '@/lib/historicalCandles';
+import { getCandlesWithToday } from '@/lib/intradayCandles';
+import { historicalSchema, invalidBodyResponse, jsonInput, parseInput, queryInput, validationErrorResponse } from '@/lib/validation';
+
+/**
+ * Serve candles from the on-disk cache, fetching only the missing ranges from Upstox.
+ * Response keeps the Upstox shape ({ status, data: { candles } }) plus cache metadata.
+ * With includeToday, the current session's candles from the intraday API are appended;
+ * the newest `meta.provisional.candles` bars are still forming.
+ */
+async function candleResponse(request: HistoricalCandleRequest, includeToday: boolean) {
+    const { candles, meta } = await getCandlesWithToday(request, includeToday);
+
+    return NextResponse.json({
+        status: 'success',
+        data: { candles },
+        meta
+    });
+}
 
 /**
  * API Proxy for Upstox Historical Candle Data
  * This route proxies requests to Upstox API to avoid CORS issues in the browser.
+ * Candles are cached on disk (data/candles) so repeat pulls only fetch new bars.
+ * Long ranges are split into windows Upstox accepts and stitched back together;
+ * `meta.chunks` reports each window and `meta.partial` flags failed ones.
  * 
  * Query Parameters:
  * - instrumentKey: The instrument key (e.g., NSE_EQ|INE002A01018)
  * - unit: Time unit (minutes, hours, days, weeks, months)
- * - interval: Interval value (1, 5, 15, 30, etc.)
+ * - interval: Interval value (minutes 1-300, hours 1-5, otherwise 1)
  * - toDate: End date (YYYY-MM-DD)
  * - fromDate: Start date (YYYY-MM-DD)
+ * - includeToday: 'true' to append the current session's provisional candle(s)
  * 
- * Headers:
- * - Authorization: Bearer token from Upstox
+ * The active profile's Upstox access token is read from the encrypted session cookie.
  */
 export async function GET(request: NextRequest) {
-    const { searchParams } = new URL(request.url);
-
-    const instrumentKey = searchParams.get('instrumentKey');
-    const unit = searchParams.get('unit') || 'days';
-    const interval = searchParams.get('interval') || '1';
-    const toDate = searchParams.get('toDate');
-    const fromDate = searchParams.get('fromDate');
-
-    // Get authorization header from request
-    const authHeader = request.headers.get('authorization');
+    const profile = getSessionProfile(request);
 
-    if (!authHeader) {
-        return NextResponse.json(
-            { error: 'Authorization header required' },
-            { status: 401 }
-        );
+    if (!profile) {
+        return unauthenticatedResponse();
     }
 
-    if (!instrumentKey || !toDate || !fromDate) {
-        return NextResponse.json(
-            { error: 'Missing required parameters: instrumentKey, toDate, fromDate' },
-            { status: 400 }
-        );
+    const parsed = parseInput(historicalSchema, queryInput(request));
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
     }
 
     try {
-        const upstoxUrl = `https://api.upstox.com/v3/historical-candle/${encodeURIComponent(instrumentKey)}/${unit}/${interval}/${toDate}/${fromDate}`;
-
-        console.log(`📡 Proxying request to: ${upstoxUrl}`);
-
-        const response = await axios.get(upstoxUrl, {
-            headers: {
-                'Authorization': authHeader,
-                'Accept': 'application/json'
-            },
-            timeout: 30000 // 30 second timeout
-        });
-
-        return NextResponse.json(response.data);
+        const { includeToday, ...query } = parsed.value;
+        return await candleResponse({ accessToken: profile.accessToken, ...query }, includeToday === 'true');
     } catch (error: any) {
-        console.error('Historical data proxy error:', error.message);
-
-        // Handle rate limiting specifically
-        if (error.response?.status === 429) {
-            return NextResponse.json(
-                {
-                    error: 'Rate limit exceeded. Please wait a moment before retrying.',
-                    status: 'RATE_LIMITED'
-                },
-                { status: 429 }
-            );
-        }
-
-        // Handle other Upstox API errors
-        if (error.response) {
-            return NextResponse.json(
-                {
-                    error: error.response.data?.message || error.message,
-                    upstoxStatus: error.response.status
-                },
-                { status: error.response.status }
-            );
-        }
-
-        return NextResponse.json(
-            { error: error.message || 'Failed to fetch historical data' },
-            { status: 500 }
-        );
+        return upstreamErrorResponse(error, request, profile.id, 'Failed to fetch historical data');
     }
 }
 
 /**
  * POST handler for chart data - accepts body parameters
+ *
+ * Body: { instrumentKey, interval (unit), intervalNum, toDate, fromDate, includeToday? }
+ * Validated with the same schema as GET; errors name the GET fields (unit, interval).
  */
 export async function POST(request: NextRequest) {
-    try {
-        const body = await request.json();
-        const { instrumentKey, interval, intervalNum, toDate, fromDate, accessToken } = body;
-
-        if (!instrumentKey || !toDate || !fromDate || !accessToken) {
-            return NextResponse.json(
-                { error: 'Missing required parameters' },
-                { status: 400 }
-            );
-        }
+    const profile = getSessionProfile(request);
 
-        const unit = interval || 'days';
-        const num = intervalNum || '1';
+    if (!profile) {
+        return unauthenticatedResponse();
+    }
 
-        const upstoxUrl = `https://api.upstox.com/v3/historical-candle/${encodeURIComponent(instrumentKey)}/${unit}/${num}/${toDate}/${fromDate}`;
+    const body = await jsonInput(request);
 
-        console.log(`📡 Chart POST request to: ${upstoxUrl}`);
+    if (!body) {
+        return invalidBodyResponse();
+    }
 
-        const response = await axios.get(upstoxUrl, {
-            headers: {
-                'Authorization': `Bearer ${accessToken}`,
-                'Accept': 'application/json'
-            },
-            timeout: 30000
-        });
+    const parsed = parseInput(historicalSchema, {
+        instrumentKey: body.instrumentKey,
+        unit: body.interval,
+        interval: body.intervalNum,
+        toDate: body.toDate,
+        fromDate: body.fromDate,
+        includeToday: typeof body.includeToday === 'boolean' ? String(body.includeToday) : body.includeToday
+    });
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
+    }
 
-        return NextResponse.json(response.data);
+    try {
+        const { includeToday, ...query } = parsed.value;
+        return await candleResponse({ accessToken: profile.accessToken, ...query }, includeToday === 'true');
     } catch (error: any) {
-        console.error('Chart API error:', error.message);
-
-        if (error.response?.status === 429) {
-            return NextResponse.json(
-                { error: 'Rate limit exceeded. Please wait.' },
-                { status: 429 }
-            );
-        }
-
-        if (error.response) {
-            return NextResponse.json(
-                { error: error.response.data?.message || error.message },
-                { status: error.response.status }
-            );
-        }
-
-        return NextResponse.json(
-            { error: error.message || 'Failed to fetch chart data' },
-            { status: 500 }
-        );
+        return upstreamErrorResponse(error, request, profile.id, 'Failed to fetch chart data');
     }
 }
-
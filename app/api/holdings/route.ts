@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UpstoxProfile, getSession, unauthenticatedResponse } from '@/lib/session';
+import { upstoxRequest, upstreamErrorResponse } from '@/lib/upstoxClient';
+import { errorResponse, holdingsSchema, parseInput, queryInput, validationErrorResponse } from '@/lib/validation';
+
+async function fetchHoldings(profile: UpstoxProfile) {
+    const response = await upstoxRequest({
+        endpoint: 'holdings',
+        path: '/v2/portfolio/long-term-holdings',
+        accessToken: profile.accessToken
+    });
+
+    return (response.data.data || []).map((h: any) => ({ ...h, profile_id: profile.id }));
+}
+
+/**
+ * API Proxy for Upstox Long-Term Holdings
+ * Access tokens are read from the encrypted session cookie.
+ *
+ * Query Parameters:
+ * - profile: Profile id, or 'all' to combine every logged-in account (defaults to the active profile)
+ */
+export async function GET(request: NextRequest) {
+    const session = getSession(request);
+
+    if (!session) {
+        return unauthenticatedResponse();
+    }
+
+    const parsed = parseInput(holdingsSchema, queryInput(request));
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
+    }
+
+    const profileParam = parsed.value.profile || session.activeProfileId;
+
+    // Combined holdings - one failing account doesn't sink the others
+    if (profileParam === 'all') {
+        const results = await Promise.all(session.profiles.map(async (profile) => {
+            try {
+                return { profile, holdings: await fetchHoldings(profile), error: null };
+            } catch (error: any) {
+                return { profile, holdings: [], error: error.response?.data?.errors?.[0]?.message || error.message };
+            }
+        }));
+
+        return NextResponse.json({
+            status: 'success',
+            data: results.flatMap(r => r.holdings),
+            errors: results
+                .filter(r => r.error)
+                .map(r => ({ profile: r.profile.id, error: r.error }))
+        });
+    }
+
+    const profile = session.profiles.find(p => p.id === profileParam);
+
+    if (!profile) {
+        return errorResponse(404, 'UNKNOWN_PROFILE', `Unknown profile: ${profileParam}`);
+    }
+
+    try {
+        return NextResponse.json({
+            status: 'success',
+            data: await fetchHoldings(profile)
+        });
+    } catch (error: any) {
+        return upstreamErrorResponse(error, request, profile.id, 'Failed to fetch holdings');
+    }
+}
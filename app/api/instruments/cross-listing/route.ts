@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CrossListing, findCrossListing } from '@/lib/crossListing';
+import { parseInstrumentKeys } from '@/lib/marketQuotes';
+import {
+  crossListingSchema,
+  invalidBodyResponse,
+  jsonInput,
+  parseInput,
+  queryInput,
+  validationErrorResponse
+} from '@/lib/validation';
+
+/**
+ * Map each id to its NSE and BSE listings via the shared ISIN (see lib/crossListing.ts)
+ */
+function crossListingResponse(input: Record<string, unknown>) {
+  const parsed = parseInput(crossListingSchema, input);
+
+  if (!parsed.ok) {
+    return validationErrorResponse(parsed.issues);
+  }
+
+  const listings: Record<string, CrossListing | null> = {};
+  for (const id of parseInstrumentKeys(parsed.value.ids)) {
+    listings[id] = findCrossListing(id);
+  }
+
+  return NextResponse.json({ listings });
+}
+
+/**
+ * NSE/BSE instrument keys for listed equities
+ *
+ * Query Parameters:
+ * - ids: Comma-separated symbols, instrument keys or ISINs, e.g. RELIANCE,BSE_EQ|INE467B01029,INE009A01021
+ *
+ * Response: { listings: { [id]: { isin, name, nse: Instrument | null, bse: Instrument | null } | null } }
+ * null means the id isn't a listed equity on either exchange.
+ */
+export async function GET(request: NextRequest) {
+  return crossListingResponse(queryInput(request));
+}
+
+/**
+ * POST variant for lists too long for a query string
+ *
+ * Body: { ids: string[] | string }
+ */
+export async function POST(request: NextRequest) {
+  const body = await jsonInput(request);
+
+  if (!body) {
+    return invalidBodyResponse();
+  }
+
+  const ids = Array.isArray(body.ids)
+    ? body.ids.filter((id): id is string => typeof id === 'string').join(',')
+    : body.ids;
+
+  return crossListingResponse({ ids });
+}
@@ -1,93 +1,79 @@
-import { NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveCompanyName } from '@/lib/companyNames';
+import {
+  filterInstruments,
+  findInstrument,
+  getInstrumentMaster,
+  segmentCounts,
+  segmentsFor,
+  toInstrument
+} from '@/lib/instrumentMaster';
+import { instrumentsSchema, parseInput, queryInput, validationErrorResponse } from '@/lib/validation';
 
-let cachedInstruments: Record<string, string> | null = null;
-let cacheLoadTime: number = 0;
-const CACHE_DURATION = 86400000; // 24 hours
+/**
+ * Instrument master lookups (see lib/instrumentMaster.ts)
+ *
+ * Query Parameters:
+ * - symbol: Trading symbol to resolve; omit to get the whole symbol -> key map
+ * - name: Company name to resolve, e.g. "State Bank of India", "Larsen & Toubro Ltd" -
+ *   returns { status: found | ambiguous | not_found, instrument?, candidates? }
+ * - exchange: NSE (default), BSE, MCX, ... - alone it means the exchange's cash segment
+ * - segment: Exact segment, e.g. BSE_EQ, NSE_INDEX, NSE_FO (overrides exchange)
+ * - type: Instrument type, e.g. EQ, INDEX, FUT, CE, PE - with exchange, searches all its segments
+ * - format: map (default) returns { map: { SYMBOL: key } }; full returns { instruments: Instrument[] }
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseInput(instrumentsSchema, queryInput(request));
 
-interface Instrument {
-  trading_symbol: string;
-  instrument_key: string;
-  segment: string;
-}
-
-function loadInstrumentsFromFile(): Record<string, string> {
-  try {
-    const filePath = path.join(process.cwd(), 'public', 'instruments.json');
-    
-    if (!fs.existsSync(filePath)) {
-      throw new Error('instruments.json not found in public folder');
-    }
-    
-    const fileContent = fs.readFileSync(filePath, 'utf-8');
-    const instruments: Instrument[] = JSON.parse(fileContent);
-    
-    const map: Record<string, string> = {};
-    
-    instruments.forEach((item) => {
-      if (item.trading_symbol && item.instrument_key) {
-        if (item.segment === 'NSE_EQ') {
-          map[item.trading_symbol] = item.instrument_key;
-        }
-      }
-    });
-    
-    console.log(`✓ Loaded ${Object.keys(map).length} NSE_EQ instruments`);
-    return map;
-  } catch (error: any) {
-    console.error('Failed to load instruments:', error.message);
-    throw error;
+  if (!parsed.ok) {
+    return validationErrorResponse(parsed.issues);
   }
-}
 
-export async function GET(request: Request) {
-  const { searchParams } = new URL(request.url);
-  const symbol = searchParams.get('symbol');
-  const exchange = searchParams.get('exchange') || 'NSE';
-  
-  try {
-    if (!cachedInstruments || Date.now() - cacheLoadTime > CACHE_DURATION) {
-      cachedInstruments = loadInstrumentsFromFile();
-      cacheLoadTime = Date.now();
-    }
-    
-    if (symbol) {
-      const instrumentKey = cachedInstruments[symbol.toUpperCase()];
-      return NextResponse.json({
-        symbol: symbol.toUpperCase(),
-        instrument_key: instrumentKey || null,
-        found: !!instrumentKey
-      });
-    }
-    
-    return NextResponse.json({
-      map: cachedInstruments,
-      metadata: {
-        exchange,
-        count: Object.keys(cachedInstruments).length,
-        timestamp: new Date(cacheLoadTime).toISOString(),
-        source: 'local_file'
-      }
-    });
-  } catch (error: any) {
-    const fallback = {
-      'RELIANCE': 'NSE_EQ|INE002A01018',
-      'TCS': 'NSE_EQ|INE467B01029',
-      'HDFCBANK': 'NSE_EQ|INE040A01034',
-      'INFY': 'NSE_EQ|INE009A01021',
-      'ICICIBANK': 'NSE_EQ|INE090A01021'
-    };
-    
+  const { symbol, name, exchange, segment, type, format } = parsed.value;
+  const filter = { exchange, segment, instrumentType: type };
+  const master = getInstrumentMaster();
+
+  if (symbol) {
+    const instrument = findInstrument(symbol, filter);
     return NextResponse.json({
-      map: fallback,
-      metadata: {
-        exchange,
-        count: 5,
-        timestamp: new Date().toISOString(),
-        source: 'fallback',
-        error: error.message
-      }
+      symbol: symbol.toUpperCase(),
+      instrument_key: instrument?.instrument_key || null,
+      found: !!instrument,
+      segment: instrument?.segment || null,
+      instrument_type: instrument?.instrument_type || null,
+      name: instrument?.name || null,
+      instrument: instrument ? toInstrument(instrument) : null
     });
   }
+
+  if (name) {
+    return NextResponse.json({ name, ...resolveCompanyName(name, filter) });
+  }
+
+  const rows = filterInstruments(filter);
+  const metadata = {
+    exchange,
+    segments: segmentsFor(filter, master),
+    type: type || null,
+    available: segmentCounts(),
+    timestamp: new Date(master.loadedAt).toISOString(),
+    source: master.source,
+    ...(master.error ? { error: master.error } : {})
+  };
+
+  if (format === 'full') {
+    const instruments = rows.map(toInstrument);
+    return NextResponse.json({ instruments, metadata: { ...metadata, count: instruments.length } });
+  }
+
+  const map: Record<string, string> = {};
+  for (const instrument of rows) {
+    // Earlier segments win if a symbol appears in more than one
+    map[instrument.trading_symbol] ??= instrument.instrument_key;
+  }
+
+  return NextResponse.json({
+    map,
+    metadata: { ...metadata, count: Object.keys(map).length }
+  });
 }
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getInstrumentMaster } from '@/lib/instrumentMaster';
+import { searchInstruments } from '@/lib/instrumentSearch';
+import { instrumentSearchSchema, parseInput, queryInput, validationErrorResponse } from '@/lib/validation';
+
+/**
+ * Ranked instrument search by symbol or company name (see lib/instrumentSearch.ts)
+ *
+ * Query Parameters:
+ * - q: What the user typed, e.g. "reli", "tata steel", "HDFCBNK"
+ * - exchange: Limit to one exchange's segments (NSE, BSE, MCX, ...)
+ * - segment: Limit to one segment, e.g. NSE_EQ or NSE_FO
+ * - type: Instrument type, e.g. EQ, INDEX, CE - needed to search derivatives without a segment
+ * - limit: Results to return, 1-50 (default 10)
+ *
+ * Response: { query, results: [{ instrumentKey, symbol, name, segment, exchange, isin, instrumentType,
+ *   lotSize, tickSize, expiry, strikePrice, underlyingKey, match, score }], source }
+ * Each result is the Instrument model (lib/instrumentMaster.ts) plus match and score.
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseInput(instrumentSearchSchema, queryInput(request));
+
+  if (!parsed.ok) {
+    return validationErrorResponse(parsed.issues);
+  }
+
+  const { q, exchange, segment, type, limit } = parsed.value;
+  const results = searchInstruments(q, { exchange, segment, instrumentType: type }, parseInt(limit));
+
+  return NextResponse.json({
+    query: q,
+    results,
+    source: getInstrumentMaster().source
+  });
+}
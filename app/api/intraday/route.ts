@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionProfile, unauthenticatedResponse } from '@/lib/session';
+import { upstreamErrorResponse } from '@/lib/upstoxClient';
+import { fetchIntradayCandles } from '@/lib/intradayCandles';
+import { todayIST } from '@/lib/candleCache';
+import { intradaySchema, parseInput, queryInput, validationErrorResponse } from '@/lib/validation';
+
+/**
+ * API Proxy for Upstox V3 Intraday Candle Data (current trading session)
+ * Candles are provisional - the newest one is still forming - and are never cached.
+ *
+ * Query Parameters:
+ * - instrumentKey: The instrument key (e.g., NSE_EQ|INE002A01018)
+ * - unit: Time unit (minutes, hours, days) - defaults to minutes
+ * - interval: Interval value (minutes 1-300, hours 1-5, days 1)
+ *
+ * The active profile's Upstox access token is read from the encrypted session cookie.
+ */
+export async function GET(request: NextRequest) {
+    const profile = getSessionProfile(request);
+
+    if (!profile) {
+        return unauthenticatedResponse();
+    }
+
+    const parsed = parseInput(intradaySchema, queryInput(request));
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
+    }
+
+    try {
+        const candles = await fetchIntradayCandles({ accessToken: profile.accessToken, ...parsed.value });
+
+        return NextResponse.json({
+            status: 'success',
+            data: { candles },
+            meta: { provisional: true, date: todayIST() }
+        });
+    } catch (error: any) {
+        return upstreamErrorResponse(error, request, profile.id, 'Failed to fetch intraday data');
+    }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMetricsSnapshot, toPrometheus } from '@/lib/metrics';
+import { metricsSchema, parseInput, queryInput, validationErrorResponse } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Proxy-layer metrics since the server process started (see lib/metrics.ts):
+ * upstream attempts and latency percentiles per endpoint, 401/429/4xx/5xx/timeout counts,
+ * candle cache hit ratio and instrument master age.
+ *
+ * Query Parameters:
+ * - format: 'json' (default) or 'prometheus' for the text exposition format
+ */
+export async function GET(request: NextRequest) {
+    const parsed = parseInput(metricsSchema, queryInput(request));
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
+    }
+
+    const snapshot = getMetricsSnapshot();
+
+    if (parsed.value.format === 'prometheus') {
+        return new NextResponse(toPrometheus(snapshot), {
+            headers: {
+                'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+                'Cache-Control': 'no-store'
+            }
+        });
+    }
+
+    return NextResponse.json(snapshot, {
+        headers: { 'Cache-Control': 'no-store' }
+    });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionProfile, unauthenticatedResponse } from '@/lib/session';
+import { upstreamErrorResponse } from '@/lib/upstoxClient';
+import { fetchOptionChain } from '@/lib/optionChain';
+import { optionChainSchema, parseInput, queryInput, validationErrorResponse } from '@/lib/validation';
+
+/**
+ * API Proxy for the Upstox Option Chain
+ * Calls and puts per strike with OI and change in OI; IV and Black-Scholes Greeks
+ * are computed here from each leg's last price (see lib/optionChain.ts), along with
+ * PCR and max pain for the expiry.
+ *
+ * Query Parameters:
+ * - underlying: Underlying instrument key (e.g., NSE_INDEX|Nifty 50)
+ * - expiry: Expiry date (YYYY-MM-DD), one of /api/options/expiries
+ *
+ * The active profile's Upstox access token is read from the encrypted session cookie.
+ */
+export async function GET(request: NextRequest) {
+    const profile = getSessionProfile(request);
+
+    if (!profile) {
+        return unauthenticatedResponse();
+    }
+
+    const parsed = parseInput(optionChainSchema, queryInput(request));
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
+    }
+
+    try {
+        const chain = await fetchOptionChain({
+            accessToken: profile.accessToken,
+            underlyingKey: parsed.value.underlying,
+            expiry: parsed.value.expiry
+        });
+
+        return NextResponse.json({ status: 'success', data: chain });
+    } catch (error: any) {
+        return upstreamErrorResponse(error, request, profile.id, 'Failed to fetch option chain');
+    }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionProfile, unauthenticatedResponse } from '@/lib/session';
+import { upstreamErrorResponse } from '@/lib/upstoxClient';
+import { fetchOptionExpiries } from '@/lib/optionChain';
+import { optionExpiriesSchema, parseInput, queryInput, validationErrorResponse } from '@/lib/validation';
+
+/**
+ * API Proxy for Upstox Option Contracts - the expiries an underlying has options for
+ *
+ * Query Parameters:
+ * - underlying: Underlying instrument key (e.g., NSE_INDEX|Nifty 50, NSE_EQ|INE002A01018)
+ *
+ * Response: { status, data: { expiries: ['2024-10-31', ...] } } - ascending; empty when
+ * the underlying has no listed options.
+ */
+export async function GET(request: NextRequest) {
+    const profile = getSessionProfile(request);
+
+    if (!profile) {
+        return unauthenticatedResponse();
+    }
+
+    const parsed = parseInput(optionExpiriesSchema, queryInput(request));
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
+    }
+
+    try {
+        const expiries = await fetchOptionExpiries(profile.accessToken, parsed.value.underlying);
+
+        return NextResponse.json({ status: 'success', data: { expiries } });
+    } catch (error: any) {
+        return upstreamErrorResponse(error, request, profile.id, 'Failed to fetch option expiries');
+    }
+}
@@ -1,92 +1,79 @@
 import { NextRequest, NextResponse } from 'next/server';
-import axios from 'axios';
+import { getSessionProfile, unauthenticatedResponse } from '@/lib/session';
+import { upstreamErrorResponse } from '@/lib/upstoxClient';
+import { QuoteType, getMarketQuotes, parseInstrumentKeys } from '@/lib/marketQuotes';
+import { invalidBodyResponse, jsonInput, parseInput, queryInput, quotesSchema, validationErrorResponse } from '@/lib/validation';
 
 /**
- * API Proxy for Upstox Market Quotes
- * This route proxies requests to Upstox API to avoid CORS issues in the browser.
- * 
- * Query Parameters:
- * - instruments: Comma-separated list of instrument keys
- * - type: Quote type ('full', 'ltp', 'ohlc') - defaults to 'full'
- * 
- * Headers:
- * - Authorization: Bearer token from Upstox
+ * Fetch quotes in Upstox-sized batches and merge them.
+ * Response keeps the Upstox shape ({ status, data }) plus the keys Upstox didn't resolve.
  */
-export async function GET(request: NextRequest) {
-    const { searchParams } = new URL(request.url);
+async function quotesResponse(request: NextRequest, input: Record<string, unknown>) {
+    const profile = getSessionProfile(request);
 
-    const instruments = searchParams.get('instruments');
-    const quoteType = searchParams.get('type') || 'full';
-
-    // Get authorization header from request
-    const authHeader = request.headers.get('authorization');
-
-    if (!authHeader) {
-        return NextResponse.json(
-            { error: 'Authorization header required' },
-            { status: 401 }
-        );
+    if (!profile) {
+        return unauthenticatedResponse();
     }
 
-    if (!instruments) {
-        return NextResponse.json(
-            { error: 'Missing required parameter: instruments' },
-            { status: 400 }
-        );
+    const parsed = parseInput(quotesSchema, input);
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
     }
 
     try {
-        let upstoxUrl: string;
-
-        // Upstox uses v3 for all market quote endpoints
-        switch (quoteType) {
-            case 'ltp':
-                upstoxUrl = `https://api.upstox.com/v3/market-quote/ltp?instrument_key=${instruments}`;
-                break;
-            case 'ohlc':
-                upstoxUrl = `https://api.upstox.com/v3/market-quote/ohlc?instrument_key=${instruments}`;
-                break;
-            default:
-                upstoxUrl = `https://api.upstox.com/v3/market-quote/quotes?instrument_key=${instruments}`;
-        }
-
-        console.log(`📡 Proxying quote request to: ${upstoxUrl}`);
-
-        const response = await axios.get(upstoxUrl, {
-            headers: {
-                'Authorization': authHeader,
-                'Accept': 'application/json'
-            },
-            timeout: 30000
+        const result = await getMarketQuotes({
+            accessToken: profile.accessToken,
+            instrumentKeys: parseInstrumentKeys(parsed.value.instruments),
+            type: parsed.value.type as QuoteType
         });
 
-        return NextResponse.json(response.data);
+        return NextResponse.json({
+            status: 'success',
+            data: result.data,
+            missing: result.missing,
+            meta: {
+                batches: result.batches,
+                failed: result.failed
+            }
+        });
     } catch (error: any) {
-        console.error('Quote proxy error:', error.message);
+        return upstreamErrorResponse(error, request, profile.id, 'Failed to fetch quotes');
+    }
+}
 
-        if (error.response?.status === 429) {
-            return NextResponse.json(
-                {
-                    error: 'Rate limit exceeded. Please wait a moment before retrying.',
-                    status: 'RATE_LIMITED'
-                },
-                { status: 429 }
-            );
-        }
+/**
+ * API Proxy for Upstox Market Quotes
+ * This route proxies requests to Upstox API to avoid CORS issues in the browser.
+ * Any number of instruments is accepted - they are split into batches of 500
+ * (the Upstox per-call limit). `missing` lists keys Upstox returned nothing for;
+ * `meta.failed` lists batches that errored.
+ * 
+ * Query Parameters:
+ * - instruments: Comma-separated list of instrument keys
+ * - type: Quote type ('full', 'ltp', 'ohlc') - defaults to 'full'
+ * 
+ * The active profile's Upstox access token is read from the encrypted session cookie.
+ */
+export async function GET(request: NextRequest) {
+    return quotesResponse(request, queryInput(request));
+}
 
-        if (error.response) {
-            return NextResponse.json(
-                {
-                    error: error.response.data?.message || error.message,
-                    upstoxStatus: error.response.status
-                },
-                { status: error.response.status }
-            );
-        }
+/**
+ * POST variant for lists too long for a query string
+ *
+ * Body: { instruments: string[] | string, type?: 'full' | 'ltp' | 'ohlc' }
+ */
+export async function POST(request: NextRequest) {
+    const body = await jsonInput(request);
 
-        return NextResponse.json(
-            { error: error.message || 'Failed to fetch quotes' },
-            { status: 500 }
-        );
+    if (!body) {
+        return invalidBodyResponse();
     }
+
+    const instruments = Array.isArray(body.instruments)
+        ? body.instruments.filter((k): k is string => typeof k === 'string').join(',')
+        : body.instruments;
+
+    return quotesResponse(request, { ...body, instruments });
 }
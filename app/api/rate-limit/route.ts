@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionProfile, unauthenticatedResponse } from '@/lib/session';
+import { getRateLimitState } from '@/lib/rateLimiter';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The active profile's position against Upstox's rate limits.
+ * Every proxy route shares one limiter per access token (see lib/rateLimiter.ts),
+ * so `queued` counts calls from all tabs and batch runs waiting for a slot.
+ *
+ * Response: { profile, queued, windows: [{ label, limit, windowMs, used, remaining, resetInMs }] }
+ */
+export async function GET(request: NextRequest) {
+    const profile = getSessionProfile(request);
+
+    if (!profile) {
+        return unauthenticatedResponse();
+    }
+
+    return NextResponse.json({
+        profile: profile.id,
+        ...getRateLimitState(profile.accessToken)
+    }, {
+        headers: { 'Cache-Control': 'no-store' }
+    });
+}
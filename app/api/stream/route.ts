@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import { getSessionProfile, unauthenticatedResponse } from '@/lib/session';
+import { FeedMode, subscribeMarketFeed } from '@/lib/marketFeed';
+import { parseInstrumentKeys } from '@/lib/marketQuotes';
+import { parseInput, queryInput, streamSchema, validationErrorResponse } from '@/lib/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Live prices as Server-Sent Events, relayed from the Upstox V3 market data feed.
+ * Every tab of a profile shares one upstream WebSocket (see lib/marketFeed.ts).
+ *
+ * Query Parameters:
+ * - instruments: Comma-separated list of instrument keys (max 200)
+ * - mode: 'ltpc' (default) or 'full' (adds day OHLC, volume, OI)
+ *
+ * Events:
+ * - tick: LiveTick JSON
+ * - status: { status: 'connecting' | 'open' | 'reconnecting' | 'closed', attempt?, retryInMs? }
+ * - feed-error: { error, code } - the stream ends after this; don't reconnect
+ */
+export async function GET(request: NextRequest) {
+    const profile = getSessionProfile(request);
+
+    if (!profile) {
+        return unauthenticatedResponse();
+    }
+
+    const parsed = parseInput(streamSchema, queryInput(request));
+
+    if (!parsed.ok) {
+        return validationErrorResponse(parsed.issues);
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream({
+        start(controller) {
+            let closed = false;
+
+            const write = (chunk: string) => {
+                if (!closed) controller.enqueue(encoder.encode(chunk));
+            };
+            const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+            // Browser EventSource reconnects after this many ms
+            write('retry: 3000\n\n');
+
+            const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_MS);
+            let unsubscribe = () => {};
+
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                clearInterval(heartbeat);
+                unsubscribe();
+                try { controller.close(); } catch { /* already closed by the client */ }
+            };
+
+            unsubscribe = subscribeMarketFeed(
+                profile,
+                parseInstrumentKeys(parsed.value.instruments),
+                parsed.value.mode as FeedMode,
+                {
+                    onTick: tick => send('tick', tick),
+                    onStatus: (status, detail) => {
+                        send('status', { status, ...detail });
+                        // Relay shut down (e.g. re-login) - let EventSource reconnect to a fresh one
+                        if (status === 'closed') close();
+                    },
+                    onError: (code, error) => {
+                        send('feed-error', { error, code });
+                        close();
+                    }
+                }
+            );
+
+            cleanup = close;
+            request.signal.addEventListener('abort', close);
+        },
+        cancel() {
+            cleanup();
+        }
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        }
+    });
+}
@@ -2,22 +2,25 @@
 
 import { useEffect, useState, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
+import { upstoxApi } from '@/lib/upstoxApi';
 
 function CallbackContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
 
-  const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
+  const [status, setStatus] = useState<'loading' | 'success' | 'error' | 'rejected'>('loading');
   const [errorMsg, setErrorMsg] = useState<string>('');
 
   useEffect(() => {
     const code = searchParams.get('code');
+    const state = searchParams.get('state');
     const error = searchParams.get('error');
     const errorDescription = searchParams.get('error_description');
 
     console.log('=== CALLBACK DEBUG ===');
     console.log('Full URL:', window.location.href);
     console.log('Code:', code);
+    console.log('State:', state);
     console.log('Error:', error);
     console.log('Error Description:', errorDescription);
 
@@ -36,13 +39,21 @@ function CallbackContent() {
       return;
     }
 
+    // Only accept codes for a login this browser actually started (login CSRF)
+    if (!upstoxApi.consumeOAuthState(state)) {
+      console.error('OAuth state mismatch - discarding authorization code');
+      setStatus('rejected');
+      setErrorMsg('The login response does not match a login started from this browser. The authorization code has been discarded.');
+      return;
+    }
+
     // Got the code - send to parent window
     console.log('✓ Auth code received, sending to parent...');
 
     if (window.opener && !window.opener.closed) {
       try {
         window.opener.postMessage(
-          { type: 'UPSTOX_AUTH_CODE', code },
+          { type: 'UPSTOX_AUTH_CODE', code, state },
           window.location.origin
         );
         console.log('✓ Message sent to opener');
@@ -54,16 +65,18 @@ function CallbackContent() {
       } catch (e) {
         console.error('Error sending message:', e);
         sessionStorage.setItem('upstox_auth_code', code);
+        sessionStorage.setItem('upstox_auth_state', state!);
         router.push('/');
       }
     } else {
       console.log('No opener, using sessionStorage fallback');
       sessionStorage.setItem('upstox_auth_code', code);
+      sessionStorage.setItem('upstox_auth_state', state!);
       router.push('/');
     }
   }, [searchParams, router]);
 
-  if (status === 'error') {
+  if (status === 'error' || status === 'rejected') {
     return (
       <div style={{
         display: 'flex',
@@ -78,8 +91,10 @@ function CallbackContent() {
         background: '#1a1a2e',
         color: '#fff'
       }}>
-        <div style={{ fontSize: '48px' }}>❌</div>
-        <div style={{ fontSize: '24px', color: '#ff6b6b' }}>Authentication Failed</div>
+        <div style={{ fontSize: '48px' }}>{status === 'rejected' ? '🛡️' : '❌'}</div>
+        <div style={{ fontSize: '24px', color: '#ff6b6b' }}>
+          {status === 'rejected' ? 'Login Request Rejected' : 'Authentication Failed'}
+        </div>
         <div style={{
           fontSize: '14px',
           color: '#888',
@@ -91,12 +106,21 @@ function CallbackContent() {
         }}>
           {errorMsg}
         </div>
-        <div style={{ fontSize: '12px', color: '#666', marginTop: '10px' }}>
-          <strong>Possible fixes:</strong><br />
-          1. Check Upstox Developer Console redirect URI matches your Vercel URL<br />
-          2. Disable IP restrictions in Upstox app settings<br />
-          3. Verify environment variables in Vercel dashboard
-        </div>
+        {status === 'rejected' ? (
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '10px' }}>
+            <strong>Why am I seeing this?</strong><br />
+            1. The login link was opened from another site or an old tab<br />
+            2. The login took longer than 10 minutes<br />
+            Close this window and click [AUTH] in the console to start a fresh login.
+          </div>
+        ) : (
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '10px' }}>
+            <strong>Possible fixes:</strong><br />
+            1. Check Upstox Developer Console redirect URI matches your Vercel URL<br />
+            2. Disable IP restrictions in Upstox app settings<br />
+            3. Verify environment variables in Vercel dashboard
+          </div>
+        )}
         <button
           onClick={() => window.close()}
           style={{
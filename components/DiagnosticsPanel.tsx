@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { upstoxApi, HealthReport, MetricsSnapshot, RateLimiterState } from '@/lib/upstoxApi';
+import { describeApiError } from '@/lib/apiErrors';
+
+const REFRESH_MS = 10000;
+
+// "42s" / "3m" / "5h" style age
+function formatAge(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+const ms = (value: number | null) => (value === null ? '-' : `${value}`);
+
+/**
+ * Live view of /api/health, /api/metrics and /api/rate-limit - upstream calls,
+ * errors and latency per endpoint, candle cache hit ratio, instrument master age
+ * and the active token's rate limit queue
+ */
+export function DiagnosticsPanel() {
+  const [health, setHealth] = useState<HealthReport | null>(null);
+  const [metrics, setMetrics] = useState<MetricsSnapshot | null>(null);
+  const [rateLimit, setRateLimit] = useState<RateLimiterState | null>(null);
+  const [error, setError] = useState('');
+
+  const refresh = async () => {
+    try {
+      const diagnostics = await upstoxApi.getDiagnostics();
+      setHealth(diagnostics.health);
+      setMetrics(diagnostics.metrics);
+      setRateLimit(diagnostics.rateLimit);
+      setError('');
+    } catch (e) {
+      setError(describeApiError(e));
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    const timer = window.setInterval(refresh, REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const statusColor = health?.upstream.status === 'degraded' ? 'var(--error-text)' : 'var(--success-text)';
+
+  return (
+    <div style={{ fontSize: '10px' }}>
+      {error && <div style={{ color: 'var(--error-text)', marginBottom: '8px' }}>✗ {error}</div>}
+
+      {health && (
+        <div style={{ marginBottom: '8px' }}>
+          <span className="metric-label">UPSTREAM</span>
+          <span className="metric-val" style={{ color: statusColor }}>{health.upstream.status.toUpperCase()}</span>
+          <span style={{ color: 'var(--text-dim)' }}>
+            {' '}· {health.upstream.recentFailures}/{health.upstream.recentCalls} recent failures
+            {health.upstream.lastFailure && ` · last ${health.upstream.lastFailure.outcome} on ${health.upstream.lastFailure.endpoint}`}
+          </span>
+        </div>
+      )}
+
+      {metrics && (
+        <>
+          <div className="card-metrics" style={{ marginBottom: '8px' }}>
+            <div>
+              <span className="metric-label">CACHE HIT</span>
+              <span className="metric-val">
+                {metrics.candleCache.hitRatio === null ? '-' : `${(metrics.candleCache.hitRatio * 100).toFixed(0)}%`}
+              </span>
+              <span style={{ color: 'var(--text-dim)' }}> {metrics.candleCache.lookups} lookups</span>
+            </div>
+            <div>
+              <span className="metric-label">INSTRUMENTS</span>
+              <span className="metric-val">
+                {metrics.instrumentMaster ? formatAge(metrics.instrumentMaster.ageSeconds) : 'not loaded'}
+              </span>
+              {metrics.instrumentMaster && (
+                <span style={{ color: 'var(--text-dim)' }}> {metrics.instrumentMaster.source}</span>
+              )}
+            </div>
+          </div>
+
+          {rateLimit && (
+            <div style={{ marginBottom: '8px' }}>
+              <span className="metric-label">RATE LIMIT</span>
+              <span className="metric-val" style={{ color: rateLimit.queued ? 'var(--error-text)' : undefined }}>
+                {rateLimit.queued} queued
+              </span>
+              <span style={{ color: 'var(--text-dim)' }}>
+                {rateLimit.windows.map(w => ` · ${w.used}/${w.limit} per ${w.label}`).join('')}
+              </span>
+            </div>
+          )}
+
+          <table className="mini-table">
+            <tbody>
+              <tr>
+                <td>ENDPOINT</td>
+                <td>CALLS</td>
+                <td>P50/P95 MS</td>
+                <td>401</td>
+                <td>429</td>
+                <td>4XX</td>
+                <td>5XX/ERR</td>
+              </tr>
+              {metrics.upstream.length === 0 ? (
+                <tr><td colSpan={7}>No upstream calls yet</td></tr>
+              ) : metrics.upstream.map(e => (
+                <tr key={e.endpoint}>
+                  <td>{e.endpoint}</td>
+                  <td>{e.calls}{e.retries ? ` (${e.retries} retry)` : ''}</td>
+                  <td>{ms(e.latencyMs.p50)}/{ms(e.latencyMs.p95)}</td>
+                  <td>{e.outcomes['401']}</td>
+                  <td>{e.outcomes['429']}</td>
+                  <td>{e.outcomes['4xx']}</td>
+                  <td>{e.outcomes['5xx'] + e.outcomes.timeout + e.outcomes.network}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ color: 'var(--text-dim)', marginTop: '6px' }}>
+            Since {new Date(metrics.startedAt).toLocaleTimeString('en-IN')} ·{' '}
+            <a href="/api/metrics?format=prometheus" target="_blank" rel="noreferrer" style={{ color: 'inherit' }}>prometheus</a>
+          </div>
+        </>
+      )}
+
+      <button className="btn secondary" onClick={refresh} style={{ marginTop: '8px' }}>REFRESH</button>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { upstoxApi, InstrumentSearchResult } from '@/lib/upstoxApi';
+import { describeApiError } from '@/lib/apiErrors';
+
+// Wait for a pause in typing before querying /api/instruments/search
+const DEBOUNCE_MS = 150;
+const MAX_SUGGESTIONS = 8;
+
+interface InstrumentSearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (instrument: InstrumentSearchResult) => void;
+  exchange?: string; // NSE, BSE, ... or a single segment
+  placeholder?: string;
+}
+
+/**
+ * Typeahead over /api/instruments/search: symbols and company names, ranked,
+ * with arrow keys / Enter to pick and Escape to dismiss
+ */
+export function InstrumentSearch({ value, onChange, onSelect, exchange, placeholder }: InstrumentSearchProps) {
+  const [results, setResults] = useState<InstrumentSearchResult[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState('');
+  // Set when a pick fills the box, so the filled-in symbol isn't searched again
+  const selecting = useRef(false);
+
+  useEffect(() => {
+    if (selecting.current) {
+      selecting.current = false;
+      return;
+    }
+
+    const query = value.trim();
+    if (!query) {
+      setResults([]);
+      setOpen(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      try {
+        const found = await upstoxApi.searchInstruments(query, { exchange, limit: MAX_SUGGESTIONS, signal: controller.signal });
+        setResults(found);
+        setHighlighted(0);
+        setOpen(true);
+        setError('');
+      } catch (e) {
+        if (axios.isCancel(e)) return;
+        setResults([]);
+        setError(describeApiError(e));
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value, exchange]);
+
+  const select = (instrument: InstrumentSearchResult) => {
+    selecting.current = true;
+    setOpen(false);
+    onChange(instrument.symbol);
+    onSelect(instrument);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || results.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % results.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(results[highlighted]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div>
+      <input
+        type="text"
+        className="code-input"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={onKeyDown}
+        onFocus={() => results.length > 0 && setOpen(true)}
+        onBlur={() => setOpen(false)}
+        role="combobox"
+        aria-expanded={open}
+        aria-autocomplete="list"
+      />
+      {error && <div style={{ fontSize: '10px', color: 'var(--error-text)', marginTop: '4px' }}>✗ {error}</div>}
+      {open && (
+        <ul className="typeahead-list" role="listbox">
+          {results.length === 0 && <li className="typeahead-empty">No matches</li>}
+          {results.map((r, i) => (
+            <li
+              key={r.instrumentKey}
+              role="option"
+              aria-selected={i === highlighted}
+              className={`typeahead-item${i === highlighted ? ' active' : ''}`}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => { e.preventDefault(); select(r); }}
+              onMouseEnter={() => setHighlighted(i)}
+            >
+              <span>
+                <strong>{r.symbol}</strong>
+                {r.name && <span className="typeahead-name">{r.name}</span>}
+              </span>
+              <span className="typeahead-meta">{r.segment}{r.isin && ` · ${r.isin}`}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
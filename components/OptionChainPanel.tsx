@@ -0,0 +1,166 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { upstoxApi, OptionChain, OptionLeg } from '@/lib/upstoxApi';
+import { describeApiError } from '@/lib/apiErrors';
+
+interface OptionChainPanelProps {
+  underlyingKey: string;
+  symbol: string;
+  onClose: () => void;
+}
+
+const num = (value: number) => value.toLocaleString('en-IN');
+const fixed = (value: number | null | undefined, digits: number) => (value == null ? '-' : value.toFixed(digits));
+
+// Change in OI, signed and coloured
+function OiChange({ value }: { value: number }) {
+  return (
+    <span style={{ color: value > 0 ? 'var(--success-text)' : value < 0 ? 'var(--error-text)' : undefined }}>
+      {value > 0 ? '+' : ''}{num(value)}
+    </span>
+  );
+}
+
+// One side's cells; puts mirror the call columns so LTP sits next to the strike
+function legCells(leg: OptionLeg | null, showGreeks: boolean, side: 'call' | 'put', inTheMoney: boolean) {
+  const itm = inTheMoney ? 'itm' : undefined;
+  const cells = [
+    <td key="oi" className={itm}>{leg ? num(leg.oi) : '-'}</td>,
+    <td key="chg" className={itm}>{leg ? <OiChange value={leg.changeInOi} /> : '-'}</td>,
+    <td key="vol" className={itm}>{leg ? num(leg.volume) : '-'}</td>,
+    <td key="iv" className={itm}>{fixed(leg?.iv, 2)}</td>,
+    ...(showGreeks
+      ? [
+        <td key="delta" className={itm}>{fixed(leg?.greeks?.delta, 2)}</td>,
+        <td key="gamma" className={itm}>{fixed(leg?.greeks?.gamma, 4)}</td>,
+        <td key="theta" className={itm}>{fixed(leg?.greeks?.theta, 2)}</td>,
+        <td key="vega" className={itm}>{fixed(leg?.greeks?.vega, 2)}</td>
+      ]
+      : []),
+    <td key="ltp" className={`option-ltp ${itm || ''}`}>{leg ? leg.ltp.toFixed(2) : '-'}</td>
+  ];
+  return side === 'call' ? cells : cells.reverse();
+}
+
+/**
+ * Full-screen option chain for one underlying: expiry picker, PCR / max pain /
+ * ATM IV summary, and calls | strike | puts with OI, change in OI, IV and Greeks
+ */
+export function OptionChainPanel({ underlyingKey, symbol, onClose }: OptionChainPanelProps) {
+  const [expiries, setExpiries] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState('');
+  const [chain, setChain] = useState<OptionChain | null>(null);
+  const [showGreeks, setShowGreeks] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    upstoxApi.getOptionExpiries(underlyingKey)
+      .then((list) => {
+        setExpiries(list);
+        setExpiry(list[0] || '');
+        if (list.length === 0) {
+          setError(`${symbol} has no listed options`);
+          setLoading(false);
+        }
+      })
+      .catch((e) => {
+        setError(describeApiError(e));
+        setLoading(false);
+      });
+  }, [underlyingKey, symbol]);
+
+  const loadChain = useCallback(async () => {
+    if (!expiry) return;
+    setLoading(true);
+    try {
+      setChain(await upstoxApi.getOptionChain(underlyingKey, expiry));
+      setError('');
+    } catch (e) {
+      setError(describeApiError(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [underlyingKey, expiry]);
+
+  useEffect(() => {
+    loadChain();
+  }, [loadChain]);
+
+  const summary = chain?.summary;
+  const daysToExpiry = chain ? chain.yearsToExpiry * 365 : 0;
+  const headers = ['OI', 'CHG OI', 'VOLUME', 'IV', ...(showGreeks ? ['DELTA', 'GAMMA', 'THETA', 'VEGA'] : []), 'LTP'];
+
+  return (
+    <div className="option-chain-overlay">
+      <div className="option-chain-header">
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+          <span className="symbol-title">{symbol} OPTIONS</span>
+          <select className="code-input" style={{ width: 'auto' }} value={expiry} onChange={(e) => setExpiry(e.target.value)}>
+            {expiries.map(e => <option key={e} value={e}>{e}</option>)}
+          </select>
+          <label style={{ fontSize: '10px', display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <input type="checkbox" checked={showGreeks} onChange={(e) => setShowGreeks(e.target.checked)} /> GREEKS
+          </label>
+          <button className="btn theme-toggle" onClick={loadChain} disabled={loading || !expiry}>{loading ? '…' : '⟳ Refresh'}</button>
+        </div>
+        <button className="btn theme-toggle" onClick={onClose}>✕ Close</button>
+      </div>
+
+      {error && <div style={{ color: 'var(--error-text)', fontSize: '10px', marginBottom: '8px' }}>✗ {error}</div>}
+
+      {chain && summary && (
+        <div className="option-chain-summary">
+          <div><span className="metric-label">SPOT</span><span className="metric-val">₹{chain.spot.toFixed(2)}</span></div>
+          <div><span className="metric-label">EXPIRES IN</span><span className="metric-val">{daysToExpiry.toFixed(1)}d</span></div>
+          <div><span className="metric-label">PCR (OI)</span><span className="metric-val">{fixed(summary.pcr, 2)}</span></div>
+          <div><span className="metric-label">PCR (VOL)</span><span className="metric-val">{fixed(summary.volumePcr, 2)}</span></div>
+          <div><span className="metric-label">MAX PAIN</span><span className="metric-val">{summary.maxPain ?? '-'}</span></div>
+          <div><span className="metric-label">ATM IV</span><span className="metric-val">{summary.atmIv != null ? `${summary.atmIv}%` : '-'}</span></div>
+          <div><span className="metric-label">CALL OI</span><span className="metric-val">{num(summary.totalCallOi)}</span></div>
+          <div><span className="metric-label">PUT OI</span><span className="metric-val">{num(summary.totalPutOi)}</span></div>
+          <div><span className="metric-label">RATE</span><span className="metric-val">{(chain.riskFreeRate * 100).toFixed(2)}%</span></div>
+        </div>
+      )}
+
+      {chain && (
+        <div className="option-chain-scroll">
+          <table className="option-chain-table">
+            <thead>
+              <tr>
+                <th colSpan={headers.length}>CALLS</th>
+                <th></th>
+                <th colSpan={headers.length}>PUTS</th>
+              </tr>
+              <tr>
+                {headers.map(h => <th key={`c-${h}`}>{h}</th>)}
+                <th>STRIKE</th>
+                {[...headers].reverse().map(h => <th key={`p-${h}`}>{h}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {chain.strikes.map(({ strike, call, put }) => (
+                <tr key={strike} className={strike === summary?.atmStrike ? 'atm' : undefined}>
+                  {legCells(call, showGreeks, 'call', strike < chain.spot)}
+                  <td className="option-strike" title={strike === summary?.maxPain ? 'Max pain' : undefined}>
+                    {strike}{strike === summary?.maxPain && ' ◆'}
+                  </td>
+                  {legCells(put, showGreeks, 'put', strike > chain.spot)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {chain.strikes.length === 0 && (
+            <div style={{ textAlign: 'center', padding: '20px', color: 'var(--text-dim)' }}>No strikes for {chain.expiry}</div>
+          )}
+        </div>
+      )}
+
+      <div style={{ fontSize: '9px', color: 'var(--text-dim)', marginTop: '6px' }}>
+        IV and Greeks: Black-Scholes on each leg&apos;s last price. Theta per day, vega per 1% IV. ◆ max pain. Shaded cells are in the money.
+      </div>
+    </div>
+  );
+}
@@ -31,6 +31,8 @@ import {
   rsi,
 } from 'react-financial-charts';
 import { calculatePersonalYear, calculatePersonalMonth } from '@/lib/numerology';
+import { upstoxApi } from '@/lib/upstoxApi';
+import { describeApiError, toApiError } from '@/lib/apiErrors';
 
 interface StockChartProps {
   instrumentKey: string;
@@ -38,7 +40,6 @@ interface StockChartProps {
   companyName: string;
   incorporationDate: string;
   dateRange: string;
-  accessToken: string;
   onClose: () => void;
 }
 
@@ -54,6 +55,7 @@ interface IOHLCData {
   volume: number;
   py?: number;
   pm?: number;
+  provisional?: boolean; // current-session candle, still forming
   ema12?: number;
   ema26?: number;
   sma20?: number;
@@ -160,7 +162,7 @@ const calculateIchimoku = (data: IOHLCData[], conversionPeriod = 9, basePeriod =
 };
 
 export function StockChart({
-  instrumentKey, symbol, companyName, incorporationDate, dateRange: initialDateRange, accessToken, onClose
+  instrumentKey, symbol, companyName, incorporationDate, dateRange: initialDateRange, onClose
 }: StockChartProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -175,7 +177,7 @@ export function StockChart({
   const [showRSI, setShowRSI] = useState(false);
   const [showIchimoku, setShowIchimoku] = useState(false);
   const [chartData, setChartData] = useState<IOHLCData[]>([]);
-  const [currentData, setCurrentData] = useState<{ price: number, py: number, pm: number } | null>(null);
+  const [currentData, setCurrentData] = useState<{ price: number, py: number, pm: number, provisional: boolean } | null>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
 
   const theme = isDarkTheme ? themes.dark : themes.light;
@@ -216,13 +218,15 @@ export function StockChart({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           instrumentKey, interval: chartInterval, intervalNum: '1',
-          toDate, fromDate: fromDateStr, accessToken
+          toDate, fromDate: fromDateStr, includeToday: true
         })
       });
 
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `Failed to fetch data: ${response.status}`);
+        // Server has cleared the session - let the console show its re-login prompt
+        if (response.status === 401) upstoxApi.expireSession();
+        const errorData = await response.json().catch(() => null);
+        throw toApiError(response.status, errorData);
       }
 
       const data = await response.json();
@@ -232,8 +236,11 @@ export function StockChart({
       }
 
       const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+      // The newest N candles (the end of the reversed array) are still forming
+      const provisionalCount: number = data.meta?.provisional?.candles || 0;
+      const total = data.data.candles.length;
 
-      const candles: IOHLCData[] = data.data.candles.reverse().map((c: any) => {
+      const candles: IOHLCData[] = data.data.candles.reverse().map((c: any, i: number) => {
         const candleDate = new Date(c[0]);
         const monthYear = `${monthNames[candleDate.getMonth()]} ${candleDate.getFullYear()}`;
 
@@ -258,6 +265,7 @@ export function StockChart({
           volume: c[5] || 0,
           py,
           pm,
+          provisional: i >= total - provisionalCount,
         };
       });
 
@@ -266,16 +274,16 @@ export function StockChart({
 
       if (candles.length > 0) {
         const latest = candles[candles.length - 1];
-        setCurrentData({ price: latest.close, py: latest.py || 0, pm: latest.pm || 0 });
+        setCurrentData({ price: latest.close, py: latest.py || 0, pm: latest.pm || 0, provisional: !!latest.provisional });
       }
 
       setLoading(false);
     } catch (err: any) {
       console.error('Chart data error:', err);
-      setError(err.message);
+      setError(describeApiError(err));
       setLoading(false);
     }
-  }, [instrumentKey, chartInterval, dateRange, accessToken, incorporationDate]);
+  }, [instrumentKey, chartInterval, dateRange, incorporationDate]);
 
   useEffect(() => {
     loadChartData();
@@ -408,6 +416,12 @@ export function StockChart({
               ₹{currentData.price.toFixed(2)}
             </span>
           )}
+          {currentData?.provisional && (
+            <span title="Today's candle is still forming and will change until the close"
+              style={{ color: '#ff9800', fontSize: '12px', border: '1px solid #ff9800', borderRadius: '4px', padding: '1px 6px' }}>
+              LIVE · provisional
+            </span>
+          )}
         </div>
         <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
           {/* Theme Toggle */}
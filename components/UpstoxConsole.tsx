@@ -1,14 +1,51 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { upstoxApi } from '@/lib/upstoxApi';
-import { INSTRUMENTS, INCORPORATION_DATES, COMPANY_FULL_NAMES, NIFTY_50, NIFTY_NEXT_50, BANK_NIFTY, SENSEX, SECTOR_STOCKS } from '@/lib/constants';
+import {
+  upstoxApi,
+  companyNameFor,
+  ProfileSummary,
+  FeedStatus,
+  LiveTick,
+  Instrument,
+  InstrumentSearchResult,
+  CrossListing,
+  ExchangeComparison,
+  HistoricalBatchResult,
+  ScreenerSpec
+} from '@/lib/upstoxApi';
+import { AuthError, describeApiError, toApiError } from '@/lib/apiErrors';
+import { INSTRUMENTS, INCORPORATION_DATES, NIFTY_50, NIFTY_NEXT_50, BANK_NIFTY, SENSEX, SECTOR_STOCKS } from '@/lib/constants';
+import { IncompleteHistoryError, IndexId, constituentsAsOf, historyStart } from '@/lib/indexConstituents';
+import {
+  LOOKBACK_UNITS,
+  MAX_SCREENER_UNIVERSE,
+  SCREENER_METRICS,
+  SCREENER_PRESETS,
+  SCREENER_UNIVERSES,
+  ScreenerPreset,
+  deleteSavedScreen,
+  describeScreenerSpec,
+  loadSavedScreens,
+  saveScreen,
+  screenerSpecIssues
+} from '@/lib/screener';
 import { getChineseZodiac, calculateLifePath, calculatePersonalYear, calculatePersonalMonth, normalizeMonthYear } from '@/lib/numerology';
 import { parseCSV, parseCSVLine, parseStockCSV, downloadCSV } from '@/lib/dataProcessing';
 import { StockChart } from './StockChart';
+import { DiagnosticsPanel } from './DiagnosticsPanel';
+import { InstrumentSearch } from './InstrumentSearch';
+import { OptionChainPanel } from './OptionChainPanel';
+
+interface StockTarget {
+  symbol: string;
+  instrumentKey: string;
+  companyName: string;
+}
 
 interface StockResult {
   symbol: string;
+  instrumentKey: string;
   companyName: string;
   incorporationDate: string;
   latestPrice: string;
@@ -19,19 +56,56 @@ interface StockResult {
   percentChange: string;
   dataPoints: number;
   monthlyData?: any[];
+  provisional?: boolean; // latest price comes from today's still-forming candle
+  fallbackFrom?: string; // instrument key with no data; these candles are from the other exchange
+}
+
+// Data modes backed by an index's constituent list (these take a "members as of" date)
+const INDEX_MODES: Record<string, IndexId> = {
+  top50: 'NIFTY_50',
+  nifty50: 'NIFTY_50',
+  niftyNext50: 'NIFTY_NEXT_50',
+  bankNifty: 'BANK_NIFTY',
+  sensex: 'SENSEX'
+};
+
+// "5h 12m" / "4m 09s" style countdown for the session expiry
+function formatCountdown(ms: number): string {
+  if (ms <= 0) return 'expired';
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
 }
 
 export function UpstoxConsole() {
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
   const [isConnected, setIsConnected] = useState(false);
   const [authStatus, setAuthStatus] = useState('');
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const [activeProfile, setActiveProfile] = useState('');
+  const [holdingsProfile, setHoldingsProfile] = useState('active');
   const [logs, setLogs] = useState<string[]>(['// System initialized...']);
   const [stockResults, setStockResults] = useState<StockResult[]>([]);
+  const [liveEnabled, setLiveEnabled] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<FeedStatus | null>(null);
+  const [liveTicks, setLiveTicks] = useState<Record<string, LiveTick>>({});
+  // NSE vs BSE quotes per result, keyed by the result's instrument key
+  const [exchangeComparisons, setExchangeComparisons] = useState<Record<string, ExchangeComparison>>({});
   const [progress, setProgress] = useState(0);
   const [progressText, setProgressText] = useState('');
   const [showProgress, setShowProgress] = useState(false);
   const [showExport, setShowExport] = useState(false);
   const [dataMode, setDataMode] = useState('manual');
+  const [indexAsOf, setIndexAsOf] = useState(''); // YYYY-MM-DD; empty = today's members
+  const [screenSpec, setScreenSpec] = useState<ScreenerSpec>(SCREENER_PRESETS[0].spec); // 'customScreen' mode
+  const [screenName, setScreenName] = useState('');
+  const [savedScreens, setSavedScreens] = useState<ScreenerPreset[]>([]);
   const [symbols, setSymbols] = useState('');
   const [exchange, setExchange] = useState('NSE_EQ');
   const [interval, setInterval] = useState('months/1');
@@ -43,33 +117,93 @@ export function UpstoxConsole() {
   const [chartIncorpDate, setChartIncorpDate] = useState('');
   const [chartDateRange, setChartDateRange] = useState('1Y');
   const [chartSearchQuery, setChartSearchQuery] = useState('');
+  const [chartInstrument, setChartInstrument] = useState<Instrument | null>(null);
   const [showChart, setShowChart] = useState(false);
+  const [optionUnderlying, setOptionUnderlying] = useState('NIFTY 50');
+  const [optionSegment, setOptionSegment] = useState('NSE_INDEX');
+  const [optionChainTarget, setOptionChainTarget] = useState<{ underlyingKey: string; symbol: string } | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+
+  // Mirror the client's session state (profiles, active account, expiry) into React state
+  const syncSession = () => {
+    setIsConnected(upstoxApi.isAuthenticated());
+    setExpiresAt(upstoxApi.getExpiresAt());
+    setProfiles(upstoxApi.getProfiles());
+    setActiveProfile(upstoxApi.getActiveProfileId() || '');
+    setNow(Date.now());
+  };
 
   useEffect(() => {
-    // Check if token was restored from localStorage
-    const restoredToken = upstoxApi.getAccessToken();
-    if (restoredToken) {
-      setIsConnected(true);
-      setAuthStatus('✓ Session restored');
-      log('✓ Session restored from localStorage');
-    }
+    setSavedScreens(loadSavedScreens());
+
+    // Check for an existing server-side session
+    upstoxApi.checkSession().then((authenticated) => {
+      syncSession();
+      if (authenticated) {
+        setAuthStatus('✓ Session restored');
+        log(`✓ Session restored (${upstoxApi.getProfiles().length} account(s))`);
+      }
+    });
+
+    // Any 401 from the proxy routes lands here
+    const unsubscribeExpiry = upstoxApi.onSessionExpired(() => {
+      setSessionExpired(true);
+      setAuthStatus('⚠ Session expired');
+      log('⚠ Upstox session expired - please login again');
+      // Other accounts may still be logged in
+      upstoxApi.checkSession().then(syncSession);
+    });
 
     // Handle auth code from session storage (callback redirect)
     const code = sessionStorage.getItem('upstox_auth_code');
+    const state = sessionStorage.getItem('upstox_auth_state');
     if (code) {
       sessionStorage.removeItem('upstox_auth_code');
-      exchangeCodeForToken(code);
+      sessionStorage.removeItem('upstox_auth_state');
+      exchangeCodeForToken(code, state || '');
     }
 
     // Handle auth code from popup message
     const handleMessage = (event: MessageEvent) => {
       if (event.origin !== window.location.origin) return;
-      if (event.data.type === 'UPSTOX_AUTH_CODE') exchangeCodeForToken(event.data.code);
+      if (event.data.type === 'UPSTOX_AUTH_CODE') exchangeCodeForToken(event.data.code, event.data.state);
     };
     window.addEventListener('message', handleMessage);
-    return () => window.removeEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      unsubscribeExpiry();
+    };
   }, []);
 
+  // Tick the expiry countdown and expire the session client-side when it runs out
+  useEffect(() => {
+    if (!expiresAt) return;
+    const timer = window.setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= expiresAt) upstoxApi.expireSession();
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [expiresAt]);
+
+  // Stream live prices for the analyzed stocks while LIVE is on
+  useEffect(() => {
+    if (!liveEnabled || !isConnected || stockResults.length === 0) return;
+
+    const unsubscribe = upstoxApi.subscribeLiveQuotes(stockResults.map(s => s.instrumentKey), {
+      onTick: (tick) => setLiveTicks(prev => ({ ...prev, [tick.instrumentKey]: tick })),
+      onStatus: setLiveStatus,
+      onError: (error) => {
+        log(`✗ Live feed stopped: ${describeApiError(error)}`);
+        setLiveEnabled(false);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      setLiveStatus(null);
+    };
+  }, [liveEnabled, isConnected, stockResults]);
+
   const log = (message: string) => {
     const timestamp = new Date().toLocaleTimeString('en-IN');
     setLogs(prev => [...prev, `[${timestamp}] ${message}`]);
@@ -84,11 +218,6 @@ export function UpstoxConsole() {
 
   const authenticateUpstox = () => {
     const apiKey = process.env.NEXT_PUBLIC_UPSTOX_API_KEY;
-    let redirectUri = process.env.NEXT_PUBLIC_REDIRECT_URI;
-
-    if (typeof window !== 'undefined' && !redirectUri) {
-      redirectUri = `${window.location.origin}/callback`;
-    }
 
     if (!apiKey) {
       log('❌ API Key not configured');
@@ -96,16 +225,10 @@ export function UpstoxConsole() {
       return;
     }
 
-    if (!redirectUri) {
-      log('❌ Redirect URI not configured');
-      alert('Redirect URI missing. Please check your .env.local file or Vercel environment variables.');
-      return;
-    }
-
-    const authUrl = `https://api.upstox.com/v2/login/authorization/dialog?response_type=code&client_id=${apiKey}&redirect_uri=${encodeURIComponent(redirectUri)}`;
+    // The login route binds a fresh OAuth state to this browser, then redirects to Upstox
+    const authUrl = upstoxApi.createLoginUrl();
 
     log('Opening Upstox authorization...');
-    log(`Using redirect URI: ${redirectUri}`);
 
     const authWindow = window.open(authUrl, 'UpstoxAuth', 'width=600,height=700,left=200,top=100');
 
@@ -118,7 +241,7 @@ export function UpstoxConsole() {
     setAuthStatus('⏳ Waiting for authorization...');
   };
 
-  const exchangeCodeForToken = async (authCode: string) => {
+  const exchangeCodeForToken = async (authCode: string, state: string) => {
     try {
       log('Exchanging code for token...');
       log(`Code received: ${authCode.substring(0, 15)}...`);
@@ -126,89 +249,145 @@ export function UpstoxConsole() {
       const response = await fetch('/api/auth/token', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ code: authCode })
+        body: JSON.stringify({ code: authCode, state })
       });
 
-      const data = await response.json();
+      const data = await response.json().catch(() => null);
 
       log(`Token response status: ${response.status}`);
 
-      if (response.ok && data.access_token) {
-        upstoxApi.setAccessToken(data.access_token);
+      if (response.ok && data?.authenticated) {
+        await upstoxApi.checkSession();
+        syncSession();
+        setSessionExpired(false);
         setAuthStatus('✓ Authenticated');
-        setIsConnected(true);
-        log('✓ Token obtained successfully');
+        log(`✓ Token obtained successfully for ${data.profile?.name || 'account'}`);
       } else {
-        const errorMsg = data.error || data.message || 'Failed to get token';
-        throw new Error(errorMsg);
+        throw toApiError(response.status, data);
       }
     } catch (error: any) {
+      const message = describeApiError(error);
       setAuthStatus(`✗ Error: ${error.message}`);
-      log(`✗ Auth error: ${error.message}`);
+      log(`✗ Auth error [${error.code || 'NETWORK'}]: ${message}`);
       setIsConnected(false);
-      alert(`Authentication failed!\n\n${error.message}\n\nPlease try again.`);
+      alert(`Authentication failed!\n\n${message}\n\nPlease try again.`);
     }
   };
 
-  const getStockList = async (): Promise<string[]> => {
-    if (dataMode === 'manual') return symbols.split(',').map(s => s.trim().toUpperCase()).filter(s => s);
-
-    // API-based data modes
-    if (dataMode === 'topGainers') {
-      log('Fetching Top 50 Daily Gainers from API...');
-      const gainers = await upstoxApi.getTopGainers(50);
-      log(`✓ Retrieved ${gainers.length} daily gainers`);
-      return gainers;
+  const switchProfile = async (profileId: string) => {
+    try {
+      await upstoxApi.switchProfile(profileId);
+      syncSession();
+      const profile = upstoxApi.getProfiles().find(p => p.id === profileId);
+      log(`✓ Switched to account: ${profile?.name || profileId}`);
+    } catch (error: any) {
+      log(`✗ Failed to switch account: ${describeApiError(error)}`);
     }
+  };
 
-    if (dataMode === 'topLosers') {
-      log('Fetching Top 50 Daily Losers from API...');
-      const losers = await upstoxApi.getTopLosers(50);
-      log(`✓ Retrieved ${losers.length} daily losers`);
-      return losers;
+  const logout = async (all: boolean = false) => {
+    try {
+      const name = all ? 'all accounts' : profiles.find(p => p.id === activeProfile)?.name || 'account';
+      log(`Logging out ${name}...`);
+      const notRevoked = await upstoxApi.logout(all ? 'all' : undefined);
+      syncSession();
+      setSessionExpired(false);
+      setAuthStatus(upstoxApi.isAuthenticated() ? '✓ Authenticated' : 'Logged out');
+      if (notRevoked.length) {
+        log(`⚠ Upstox could not revoke token(s) for ${notRevoked.join(', ')} - cleared locally`);
+      }
+      log(`✓ Logged out ${name}`);
+    } catch (error: any) {
+      log(`✗ Logout failed: ${describeApiError(error)}`);
     }
+  };
 
-    if (dataMode === 'weeklyGainers') {
-      log('Fetching Top 50 Weekly Gainers from API...');
-      const gainers = await upstoxApi.getWeeklyGainers(50);
-      log(`✓ Retrieved ${gainers.length} weekly gainers`);
-      return gainers;
-    }
+  // Index members on a past date (when the "as of" field is set) instead of today's
+  const indexMembers = (index: IndexId, current: string[], asOf?: string): string[] => {
+    if (!asOf) return current;
 
-    if (dataMode === 'weeklyLosers') {
-      log('Fetching Top 50 Weekly Losers from API...');
-      const losers = await upstoxApi.getWeeklyLosers(50);
-      log(`✓ Retrieved ${losers.length} weekly losers`);
-      return losers;
+    try {
+      const constituents = constituentsAsOf(index, asOf);
+      log(`✓ ${constituents.name} as of ${asOf}: ${constituents.symbols.length} members`);
+      return constituents.symbols;
+    } catch (error) {
+      // No list rather than today's members - those would skew the study towards survivors
+      if (!(error instanceof IncompleteHistoryError)) throw error;
+      log(`✗ ${error.message}`);
+      return [];
     }
+  };
 
-    if (dataMode === 'monthlyGainers') {
-      log('Fetching Top 50 Monthly Gainers from API...');
-      const gainers = await upstoxApi.getMonthlyGainers(50);
-      log(`✓ Retrieved ${gainers.length} monthly gainers`);
-      return gainers;
-    }
+  // Symbols a screener spec picks, best first; empty (and logged) on failure
+  const runScreen = async (name: string, spec: ScreenerSpec): Promise<string[]> => {
+    log(`Running ${name}: ${describeScreenerSpec(spec)}...`);
+    setShowProgress(true);
+    setProgress(0);
 
-    if (dataMode === 'monthlyLosers') {
-      log('Fetching Top 50 Monthly Losers from API...');
-      const losers = await upstoxApi.getMonthlyLosers(50);
-      log(`✓ Retrieved ${losers.length} monthly losers`);
-      return losers;
+    try {
+      const result = await upstoxApi.runScreener(spec, {
+        onProgress: (done, total) => {
+          setProgress(Math.round((done / total) * 100));
+          setProgressText(`Screening ${done}/${total}`);
+        }
+      });
+      log(`✓ Screened ${result.scanned} of ${result.listed} stocks${result.failed ? ` (${result.failed} failed)` : ''}: ${result.matches.length} picked`);
+      if (result.scanned < result.listed) {
+        log(result.scanned === MAX_SCREENER_UNIVERSE
+          ? `⚠️ Capped at the ${MAX_SCREENER_UNIVERSE} most-traded stocks by today's turnover - ${result.listed - result.scanned} others not screened`
+          : `⚠️ ${result.listed - result.scanned} member(s) not found in the instrument master`);
+      }
+      result.matches.slice(0, 5).forEach(m => log(`   ${m.symbol} ${m.value > 0 ? '+' : ''}${m.value}% @ ₹${m.price}`));
+      return result.matches.map(m => m.symbol);
+    } catch (error: any) {
+      log(`✗ Screen failed: ${describeApiError(error)}`);
+      return [];
     }
+  };
+
+  const saveCustomScreen = () => {
+    const name = screenName.trim();
+    if (!name) return;
+    const preset = saveScreen(name, screenSpec);
+    setSavedScreens(loadSavedScreens());
+    setScreenName('');
+    setDataMode(preset.id);
+    log(`✓ Saved screen "${name}"`);
+  };
+
+  const removeSavedScreen = (preset: ScreenerPreset) => {
+    deleteSavedScreen(preset.id);
+    setSavedScreens(loadSavedScreens());
+    setDataMode('customScreen');
+    log(`✓ Deleted screen "${preset.name}"`);
+  };
+
+  /**
+   * Symbols for the selected data mode
+   * @param asOf Index modes only: members on this date (YYYY-MM-DD) rather than today's
+   */
+  const getStockList = async (asOf?: string): Promise<string[]> => {
+    if (dataMode === 'manual') return symbols.split(',').map(s => s.trim().toUpperCase()).filter(s => s);
+
+    // Screener modes: a built-in preset, a saved screen, or the custom spec
+    if (dataMode === 'customScreen') return runScreen('Custom screen', screenSpec);
+    const preset = [...SCREENER_PRESETS, ...savedScreens].find(p => p.id === dataMode);
+    if (preset) return runScreen(preset.name, preset.spec);
 
     if (dataMode === 'myHoldings') {
-      log('Fetching your portfolio holdings...');
-      const holdings = await upstoxApi.getHoldings();
+      const target = holdingsProfile === 'active' ? undefined : holdingsProfile;
+      log(`Fetching portfolio holdings (${holdingsProfile === 'all' ? 'all accounts' : profiles.find(p => p.id === (target || activeProfile))?.name || 'active account'})...`);
+      const holdings = await upstoxApi.getHoldings(target);
       log(`✓ Retrieved ${holdings.length} holdings`);
       return holdings;
     }
 
     // Static lists (fallback)
-    if (dataMode === 'top50') return NIFTY_50.slice(0, 50);
-    if (dataMode === 'nifty50') return NIFTY_50;
-    if (dataMode === 'niftyNext50') return NIFTY_NEXT_50;
-    if (dataMode === 'bankNifty') return BANK_NIFTY;
-    if (dataMode === 'sensex') return SENSEX;
+    if (dataMode === 'top50') return indexMembers('NIFTY_50', NIFTY_50, asOf).slice(0, 50);
+    if (dataMode === 'nifty50') return indexMembers('NIFTY_50', NIFTY_50, asOf);
+    if (dataMode === 'niftyNext50') return indexMembers('NIFTY_NEXT_50', NIFTY_NEXT_50, asOf);
+    if (dataMode === 'bankNifty') return indexMembers('BANK_NIFTY', BANK_NIFTY, asOf);
+    if (dataMode === 'sensex') return indexMembers('SENSEX', SENSEX, asOf);
     if (dataMode.startsWith('sector')) {
       const sector = dataMode.replace('sector', '').toLowerCase();
       return SECTOR_STOCKS[sector as keyof typeof SECTOR_STOCKS] || [];
@@ -217,122 +396,229 @@ export function UpstoxConsole() {
   };
 
   const fetchStockData = async () => {
-    if (!upstoxApi.getAccessToken()) {
+    if (!upstoxApi.isAuthenticated()) {
       setAuthStatus('❌ Please authenticate');
       return;
     }
 
-    const stocks = await getStockList();
+    const stocks = await getStockList(indexAsOf || undefined);
     if (!stocks.length) {
       setAuthStatus('❌ Enter symbols');
       return;
     }
 
     const [unit, intervalNum] = interval.split('/');
+    const intraday = unit.includes('minute') || unit.includes('hour');
     let fromDate = timePeriod === 'max'
-      ? (unit.includes('minute') || unit.includes('hour') ? '2022-01-01' : '2008-01-01')
+      ? (intraday ? '2022-01-01' : '2008-01-01')
       : new Date(Date.now() - parseInt(timePeriod) * 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    // Upstox has no intraday candles before 2022 - /api/historical rejects earlier ranges
+    if (intraday && fromDate < '2022-01-01') fromDate = '2022-01-01';
     const toDate = new Date().toISOString().split('T')[0];
 
     log(`Fetching ${stocks.length} stocks...`);
 
     // Load instruments via server-side API route (no CORS)
-    const exchangeCode = exchange.split('_')[0];
-    log(`Loading ${exchangeCode} instruments...`);
+    log(`Loading ${exchange} instruments...`);
 
-    const dynamicInstruments = await upstoxApi.loadInstruments(exchangeCode);
+    const dynamicInstruments = await upstoxApi.loadInstrumentDetails(exchange);
     log(`✓ Loaded ${Object.keys(dynamicInstruments).length} instruments`);
 
     // Static fallback
     const exchangeInstruments = INSTRUMENTS[exchange as keyof typeof INSTRUMENTS] || {};
 
     setShowProgress(true);
-    const results: StockResult[] = [];
-
-    for (let i = 0; i < stocks.length; i++) {
-      const symbol = stocks[i];
-      setProgress(((i + 1) / stocks.length) * 100);
-      setProgressText(`Processing ${symbol} (${i + 1}/${stocks.length})`);
+    setProgress(0);
+
+    // Resolve instrument keys first: dynamic, then static fallback, then API search
+    const targets: StockTarget[] = [];
+    for (const entry of stocks) {
+      let symbol = entry;
+      let instrument: Instrument | null = dynamicInstruments[entry.toUpperCase()] || null;
+      let instrumentKey: string | null = instrument?.instrumentKey ||
+        (exchangeInstruments[entry as keyof typeof exchangeInstruments] as string) ||
+        null;
+
+      // Not a listed symbol - try it as a company name, then the API
+      if (!instrumentKey) {
+        log(`Resolving ${entry}...`);
+        const resolution = await upstoxApi.resolveSymbol(entry, exchange);
 
-      try {
-        // Try dynamic first, then static fallback, then API search
-        let instrumentKey: string | null = dynamicInstruments[symbol] ||
-          (exchangeInstruments[symbol as keyof typeof exchangeInstruments] as string) ||
-          null;
-
-        // If still not found, try search as last resort
-        if (!instrumentKey) {
-          log(`Searching API for ${symbol}...`);
-          instrumentKey = await upstoxApi.searchSymbol(symbol, exchangeCode);
+        if (resolution.status === 'ambiguous') {
+          log(`⚠️ "${entry}" matches several companies - enter one of:`);
+          resolution.candidates.forEach(c => log(`   ${c.symbol} - ${c.name || c.segment}`));
+          continue;
         }
 
-        if (!instrumentKey) {
-          log(`✗ ${symbol}: Not found in ${exchangeCode}`);
-          continue;
+        if (resolution.status === 'found') {
+          instrument = resolution.instrument;
+          instrumentKey = resolution.instrumentKey;
+          symbol = resolution.instrument.symbol;
+          if (symbol !== entry) log(`✓ ${entry} → ${symbol}`);
         }
+      }
+
+      if (!instrumentKey) {
+        log(`✗ ${entry}: Not found in ${exchange}`);
+        continue;
+      }
+
+      targets.push({ symbol, instrumentKey, companyName: companyNameFor(symbol, instrument) });
+    }
+
+    if (targets.length === 0) {
+      setShowProgress(false);
+      log('✗ No instruments found');
+      return;
+    }
+
+    // One server-side run; the stream reports each stock as it finishes
+    const byIndex: (StockResult | undefined)[] = new Array(targets.length);
+    const noData: number[] = [];
+    let completed = 0;
+    setProgressText(`Fetching ${targets.length} stocks (0/${targets.length})`);
+
+    // Turn one stock's candles into its result card; false when there was nothing to show
+    const addResult = (index: number, target: StockTarget, result: HistoricalBatchResult, fallbackFrom?: string): boolean => {
+      const { symbol, instrumentKey, companyName } = target;
+      const segment = instrumentKey.split('|')[0];
+
+      if (result.status === 'failed') {
+        log(`✗ ${symbol} (${segment}): ${result.error}`);
+        return false;
+      }
+
+      const candles: any[] = result.candles;
+      if (!candles.length) {
+        log(`✗ ${symbol}: No data on ${segment}`);
+        return false;
+      }
 
-        const data = await upstoxApi.getHistoricalData(
-          instrumentKey,
-          unit,
-          intervalNum,
-          toDate,
-          fromDate
-        );
-
-        if (data.data?.candles?.length) {
-          const candles = data.data.candles;
-          const latest = candles[0][4];
-          const oldest = candles[candles.length - 1][4];
-          const high = Math.max(...candles.map((c: any) => c[2]));
-          const low = Math.min(...candles.map((c: any) => c[3]));
-          const change = latest - oldest;
-          const pct = ((change / oldest) * 100).toFixed(2);
-
-          let monthly: any[] = [];
-          if (interval === 'months/1') {
-            monthly = candles.map((c: any) => ({
-              date: new Date(c[0]).toLocaleDateString('en-IN', {
-                year: 'numeric',
-                month: 'short'
-              }),
-              open: c[1].toFixed(2),
-              close: c[4].toFixed(2),
-              high: c[2].toFixed(2),
-              low: c[3].toFixed(2),
-              change: ((c[4] - c[1]) / c[1] * 100).toFixed(2)
-            })).reverse();
+      const latest = candles[0][4];
+      const oldest = candles[candles.length - 1][4];
+      const high = Math.max(...candles.map((c: any) => c[2]));
+      const low = Math.min(...candles.map((c: any) => c[3]));
+      const change = latest - oldest;
+      const pct = ((change / oldest) * 100).toFixed(2);
+      const provisional = (result.meta.provisional?.candles ?? 0) > 0;
+
+      let monthly: any[] = [];
+      if (interval === 'months/1') {
+        monthly = candles.map((c: any) => ({
+          date: new Date(c[0]).toLocaleDateString('en-IN', {
+            year: 'numeric',
+            month: 'short'
+          }),
+          open: c[1].toFixed(2),
+          close: c[4].toFixed(2),
+          high: c[2].toFixed(2),
+          low: c[3].toFixed(2),
+          change: ((c[4] - c[1]) / c[1] * 100).toFixed(2)
+        })).reverse();
+      }
+
+      byIndex[index] = {
+        symbol,
+        instrumentKey,
+        companyName,
+        incorporationDate: INCORPORATION_DATES[symbol] || 'N/A',
+        latestPrice: latest.toFixed(2),
+        oldestPrice: oldest.toFixed(2),
+        highPrice: high.toFixed(2),
+        lowPrice: low.toFixed(2),
+        change: change.toFixed(2),
+        percentChange: pct,
+        dataPoints: candles.length,
+        monthlyData: monthly,
+        provisional,
+        fallbackFrom
+      };
+
+      log(`✓ ${symbol}: ${pct}%${fallbackFrom ? ` (${segment})` : ''}${provisional ? ' (incl. today, provisional)' : ''}`);
+      return true;
+    };
+
+    try {
+      const summary = await upstoxApi.getHistoricalBatch(
+        targets.map(t => t.instrumentKey),
+        unit,
+        intervalNum,
+        toDate,
+        fromDate,
+        {
+          includeToday: true,
+          onResult: (result) => {
+            const target = targets[result.index];
+            completed++;
+            setProgress((completed / targets.length) * 100);
+            setProgressText(`Processed ${target.symbol} (${completed}/${targets.length})`);
+
+            if (!addResult(result.index, target, result)) noData.push(result.index);
           }
+        }
+      );
+      log(`Batch finished in ${(summary.elapsedMs / 1000).toFixed(1)}s (${summary.failed} failed)`);
+
+      // Same company on the other exchange (shared ISIN) for stocks with nothing here
+      if (noData.length > 0) {
+        const listings = await upstoxApi.getCrossListings(noData.map(i => targets[i].instrumentKey))
+          .catch((): Record<string, CrossListing | null> => ({}));
+        const retries = noData.flatMap(index => {
+          const { instrumentKey } = targets[index];
+          const listing = listings[instrumentKey];
+          const other = instrumentKey.startsWith('BSE_') ? listing?.nse : listing?.bse;
+          return other ? [{ index, target: { ...targets[index], instrumentKey: other.instrumentKey } }] : [];
+        });
 
-          results.push({
-            symbol,
-            companyName: COMPANY_FULL_NAMES[symbol] || symbol,
-            incorporationDate: INCORPORATION_DATES[symbol] || 'N/A',
-            latestPrice: latest.toFixed(2),
-            oldestPrice: oldest.toFixed(2),
-            highPrice: high.toFixed(2),
-            lowPrice: low.toFixed(2),
-            change: change.toFixed(2),
-            percentChange: pct,
-            dataPoints: candles.length,
-            monthlyData: monthly
-          });
-
-          log(`✓ ${symbol}: ${pct}%`);
-        } else {
-          log(`✗ ${symbol}: No data`);
+        if (retries.length > 0) {
+          log(`↻ Trying ${retries.length} stock(s) on the other exchange...`);
+          setProgressText(`Trying ${retries.length} stock(s) on the other exchange`);
+          await upstoxApi.getHistoricalBatch(
+            retries.map(r => r.target.instrumentKey),
+            unit,
+            intervalNum,
+            toDate,
+            fromDate,
+            {
+              includeToday: true,
+              onResult: (result) => {
+                const { index, target } = retries[result.index];
+                addResult(index, target, result, targets[index].instrumentKey);
+              }
+            }
+          );
         }
-      } catch (error: any) {
-        log(`✗ ${symbol}: ${error.message}`);
       }
-
-      await new Promise(r => setTimeout(r, 300));
+    } catch (error: any) {
+      // Session is gone - the server stopped the run
+      if (error instanceof AuthError) {
+        log(`✗ Session expired - run stopped after ${completed} stocks`);
+      } else {
+        log(`✗ Batch failed: ${describeApiError(error)}`);
+      }
     }
 
+    // Keep the requested order rather than completion order
+    const results = byIndex.filter((r): r is StockResult => !!r);
+
     setShowProgress(false);
     setProgressText('');
     setStockResults(results);
+    setLiveTicks({});
+    setExchangeComparisons({});
     setShowExport(true);
     log(`✓ Done: ${results.length} analyzed`);
+
+    if (results.length > 0) {
+      try {
+        const comparisons = await upstoxApi.compareExchanges(results.map(r => r.instrumentKey));
+        setExchangeComparisons(comparisons);
+        const dual = Object.values(comparisons).filter(c => c.nse && c.bse).length;
+        log(`✓ NSE/BSE comparison: ${dual} of ${results.length} listed on both`);
+      } catch (error) {
+        log(`⚠️ NSE/BSE comparison unavailable: ${describeApiError(error)}`);
+      }
+    }
   };
 
   const exportToCSV = () => {
@@ -517,26 +803,19 @@ export function UpstoxConsole() {
     } catch (e: any) { log(`❌ Error: ${e.message}`); }
   };
 
-  const searchStockV3 = async () => {
-    if (!upstoxApi.getAccessToken()) { log('❌ Login first'); return; }
-    if (!chartSearchQuery) { log('❌ Enter symbol'); return; }
-    log(`== SEARCH: ${chartSearchQuery} ==`);
-    try {
-      const exchangeCode = exchange.split('_')[0];
-      const instrumentKey = await upstoxApi.searchSymbol(chartSearchQuery, exchangeCode);
-      if (!instrumentKey) {
-        log('❌ No results');
-        return;
-      }
-      setChartInstrumentKey(instrumentKey);
-      log(`✓ ${chartSearchQuery}: ${instrumentKey}`);
-    } catch (e: any) {
-      log(`❌ ${e.message}`);
-    }
+  const selectChartInstrument = (instrument: InstrumentSearchResult) => {
+    setChartInstrument(instrument);
+    setChartInstrumentKey(instrument.instrumentKey);
+    log(`✓ ${instrument.symbol}${instrument.name ? ` (${instrument.name})` : ''}: ${instrument.instrumentKey}`);
   };
 
+  // The picked instrument, unless the key has since been edited by hand
+  const chartDetails = chartInstrument?.instrumentKey === chartInstrumentKey ? chartInstrument : null;
+  const chartSymbol = chartDetails?.symbol ||
+    chartSearchQuery.toUpperCase() || chartInstrumentKey.split('|').pop()?.replace('_', ' ') || 'Stock';
+
   const generateChart = () => {
-    if (!upstoxApi.getAccessToken()) { log('❌ Login first'); return; }
+    if (!upstoxApi.isAuthenticated()) { log('❌ Login first'); return; }
     if (!chartInstrumentKey || !chartIncorpDate) { log('❌ Fill all fields'); return; }
     log('== OPENING CHART ==');
     log(`Instrument: ${chartInstrumentKey}`);
@@ -545,6 +824,19 @@ export function UpstoxConsole() {
     setShowChart(true);
   };
 
+  const openOptionChain = async () => {
+    if (!upstoxApi.isAuthenticated()) { log('❌ Login first'); return; }
+    const input = optionUnderlying.trim();
+    if (!input) { log('❌ Enter an underlying'); return; }
+
+    const underlyingKey = await upstoxApi.searchSymbol(input, optionSegment);
+    if (!underlyingKey) { log(`✗ ${input}: Not found on ${optionSegment}`); return; }
+
+    log('== OPENING OPTION CHAIN ==');
+    log(`Underlying: ${underlyingKey}`);
+    setOptionChainTarget({ underlyingKey, symbol: input.toUpperCase() });
+  };
+
   return (
     <>
       <header>
@@ -553,7 +845,24 @@ export function UpstoxConsole() {
           <div className="subtitle">// Historical Data Extraction & Data Patching</div>
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
-          <div style={{ fontSize: '10px', color: 'var(--text-dim)' }}>{authStatus}</div>
+          <div style={{ fontSize: '10px', color: 'var(--text-dim)' }}>
+            {authStatus}
+            {isConnected && expiresAt && <span> · ⏱ {formatCountdown(expiresAt - now)}</span>}
+          </div>
+          {profiles.length > 0 && (
+            <select className="code-input profile-switcher" value={activeProfile} onChange={(e) => switchProfile(e.target.value)} title="Active Upstox account">
+              {profiles.map(p => <option key={p.id} value={p.id}>👤 {p.name}</option>)}
+            </select>
+          )}
+          {isConnected && (
+            <button className="btn theme-toggle" onClick={() => logout()} title="Revoke the active account's token">⏻ Logout</button>
+          )}
+          {isConnected && profiles.length > 1 && (
+            <button className="btn theme-toggle" onClick={() => logout(true)} title="Revoke every logged-in account">⏻ All</button>
+          )}
+          {sessionExpired && (
+            <button className="btn relogin" onClick={authenticateUpstox}>⟳ Re-login</button>
+          )}
           <button className="btn theme-toggle" onClick={toggleTheme}>🌗 Theme</button>
         </div>
       </header>
@@ -568,7 +877,7 @@ export function UpstoxConsole() {
                 <span className={`connection-dot ${isConnected ? 'connected' : ''}`}></span>
                 <span>{isConnected ? 'Connected' : 'Disconnected'}</span>
               </div>
-              <button onClick={authenticateUpstox} style={{ background: 'none', border: 'none', textDecoration: 'underline', cursor: 'pointer', fontFamily: 'inherit', fontSize: '10px', color: 'var(--text)' }}>[AUTH]</button>
+              <button onClick={authenticateUpstox} style={{ background: 'none', border: 'none', textDecoration: 'underline', cursor: 'pointer', fontFamily: 'inherit', fontSize: '10px', color: 'var(--text)' }} title={isConnected ? 'Login another Upstox account' : 'Login to Upstox'}>{isConnected ? '[+ ACCOUNT]' : '[AUTH]'}</button>
             </div>
 
             <details open>
@@ -580,15 +889,15 @@ export function UpstoxConsole() {
                     <option value="manual">Manual Entry</option>
 
                     <optgroup label="📈 Live Market Data">
-                      <option value="topGainers">🔺 Top 50 Daily Gainers</option>
-                      <option value="topLosers">🔻 Top 50 Daily Losers</option>
-                      <option value="weeklyGainers">📈 Top 50 Weekly Gainers</option>
-                      <option value="weeklyLosers">📉 Top 50 Weekly Losers</option>
-                      <option value="monthlyGainers">🚀 Top 50 Monthly Gainers</option>
-                      <option value="monthlyLosers">💥 Top 50 Monthly Losers</option>
+                      {SCREENER_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
                       <option value="myHoldings">💼 My Holdings</option>
                     </optgroup>
 
+                    <optgroup label="🔎 Screener">
+                      <option value="customScreen">🛠 Custom Screen</option>
+                      {savedScreens.map(p => <option key={p.id} value={p.id}>⭐ {p.name}</option>)}
+                    </optgroup>
+
                     <optgroup label="🏢 Index Constituents">
                       <option value="top50">Top 50 Stocks</option>
                       <option value="nifty50">Nifty 50</option>
@@ -607,10 +916,83 @@ export function UpstoxConsole() {
                     </optgroup>
                   </select>
                 </div>
+                {dataMode === 'myHoldings' && profiles.length > 0 && (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                    <span style={{ fontWeight: 700, fontSize: '10px', color: 'var(--text-dim)' }}>ACCOUNT</span>
+                    <select className="code-input" value={holdingsProfile} onChange={(e) => setHoldingsProfile(e.target.value)}>
+                      <option value="active">Active account</option>
+                      {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      {profiles.length > 1 && <option value="all">All accounts combined</option>}
+                    </select>
+                  </div>
+                )}
+                {INDEX_MODES[dataMode] && (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                    <span style={{ fontWeight: 700, fontSize: '10px', color: 'var(--text-dim)' }}>MEMBERS AS OF</span>
+                    <input type="date" className="code-input" value={indexAsOf} min={historyStart(INDEX_MODES[dataMode])} max={new Date().toISOString().split('T')[0]} onChange={(e) => setIndexAsOf(e.target.value)} title="Empty = today's members. Set to the start of a study to include stocks that later left the index." />
+                    <span style={{ fontSize: '10px', color: 'var(--text-dim)' }}>
+                      {historyStart(INDEX_MODES[dataMode]) < new Date().toISOString().split('T')[0]
+                        ? `Membership recorded from ${historyStart(INDEX_MODES[dataMode])}`
+                        : 'No dated history - today\'s members only'}
+                    </span>
+                  </div>
+                )}
+                {dataMode === 'customScreen' && (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                    <span style={{ fontWeight: 700, fontSize: '10px', color: 'var(--text-dim)' }}>UNIVERSE / METRIC</span>
+                    <select className="code-input" value={screenSpec.universe} onChange={(e) => setScreenSpec({ ...screenSpec, universe: e.target.value as ScreenerSpec['universe'] })}>
+                      {Object.entries(SCREENER_UNIVERSES).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                    </select>
+                    <select className="code-input" value={screenSpec.metric} onChange={(e) => setScreenSpec({ ...screenSpec, metric: e.target.value as ScreenerSpec['metric'] })}>
+                      {Object.entries(SCREENER_METRICS).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                    </select>
+                    <span style={{ fontWeight: 700, fontSize: '10px', color: 'var(--text-dim)' }}>LOOKBACK</span>
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                      <input type="number" min={1} className="code-input" value={screenSpec.lookback} onChange={(e) => setScreenSpec({ ...screenSpec, lookback: parseInt(e.target.value) || 0 })} />
+                      <select className="code-input" value={screenSpec.lookbackUnit} onChange={(e) => setScreenSpec({ ...screenSpec, lookbackUnit: e.target.value as ScreenerSpec['lookbackUnit'] })}>
+                        {LOOKBACK_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                      </select>
+                    </div>
+                    <span style={{ fontWeight: 700, fontSize: '10px', color: 'var(--text-dim)' }}>RANK / LIMIT</span>
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                      <select className="code-input" value={screenSpec.direction} onChange={(e) => setScreenSpec({ ...screenSpec, direction: e.target.value as ScreenerSpec['direction'] })}>
+                        <option value="top">Highest first</option>
+                        <option value="bottom">Lowest first</option>
+                      </select>
+                      <input type="number" min={1} className="code-input" value={screenSpec.limit} onChange={(e) => setScreenSpec({ ...screenSpec, limit: parseInt(e.target.value) || 0 })} />
+                    </div>
+                    <span style={{ fontWeight: 700, fontSize: '10px', color: 'var(--text-dim)' }}>MIN PRICE / MIN VOLUME</span>
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                      <input type="number" min={0} className="code-input" placeholder="₹ any" value={screenSpec.minPrice ?? ''} onChange={(e) => setScreenSpec({ ...screenSpec, minPrice: e.target.value ? parseFloat(e.target.value) : undefined })} />
+                      <input type="number" min={0} className="code-input" placeholder="any" title="Average volume per bar over the lookback" value={screenSpec.minVolume ?? ''} onChange={(e) => setScreenSpec({ ...screenSpec, minVolume: e.target.value ? parseInt(e.target.value) : undefined })} />
+                    </div>
+                    <span style={{ fontWeight: 700, fontSize: '10px', color: 'var(--text-dim)' }}>MIN / MAX VALUE (%)</span>
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                      <input type="number" className="code-input" placeholder="any" value={screenSpec.minValue ?? ''} onChange={(e) => setScreenSpec({ ...screenSpec, minValue: e.target.value ? parseFloat(e.target.value) : undefined })} />
+                      <input type="number" className="code-input" placeholder="any" value={screenSpec.maxValue ?? ''} onChange={(e) => setScreenSpec({ ...screenSpec, maxValue: e.target.value ? parseFloat(e.target.value) : undefined })} />
+                    </div>
+                    {screenerSpecIssues(screenSpec).map(issue => (
+                      <span key={issue} style={{ fontSize: '10px', color: 'var(--error-text)' }}>✗ {issue}</span>
+                    ))}
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                      <input className="code-input" placeholder="Screen name" value={screenName} onChange={(e) => setScreenName(e.target.value)} />
+                      <button className="btn secondary" onClick={saveCustomScreen} disabled={!screenName.trim() || screenerSpecIssues(screenSpec).length > 0}>SAVE</button>
+                    </div>
+                  </div>
+                )}
+                {savedScreens.filter(p => p.id === dataMode).map(preset => (
+                  <div key={preset.id} style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                    <span style={{ fontSize: '10px', color: 'var(--text-dim)' }}>{describeScreenerSpec(preset.spec)}</span>
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                      <button className="btn secondary" onClick={() => { setScreenSpec(preset.spec); setScreenName(preset.name); setDataMode('customScreen'); }}>EDIT</button>
+                      <button className="btn secondary" onClick={() => removeSavedScreen(preset)}>DELETE</button>
+                    </div>
+                  </div>
+                ))}
                 {dataMode === 'manual' && (
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
                     <span style={{ fontWeight: 700, fontSize: '10px', color: 'var(--text-dim)' }}>SYMBOLS</span>
-                    <textarea className="code-input" placeholder="RELIANCE, TCS, INFY" value={symbols} onChange={(e) => setSymbols(e.target.value)} />
+                    <textarea className="code-input" placeholder="RELIANCE, TCS, State Bank of India" value={symbols} onChange={(e) => setSymbols(e.target.value)} />
                   </div>
                 )}
               </div>
@@ -622,6 +1004,8 @@ export function UpstoxConsole() {
                 <select className="code-input" value={exchange} onChange={(e) => setExchange(e.target.value)}>
                   <option value="NSE_EQ">NSE_EQ</option>
                   <option value="BSE_EQ">BSE_EQ</option>
+                  <option value="NSE_INDEX">NSE_INDEX</option>
+                  <option value="BSE_INDEX">BSE_INDEX</option>
                 </select>
                 <select className="code-input" value={interval} onChange={(e) => setInterval(e.target.value)}>
                   <optgroup label="Standard">
@@ -708,8 +1092,9 @@ export function UpstoxConsole() {
             <details open>
               <summary>6. CHART - V3</summary>
               <div className="details-content">
-                <input type="text" className="code-input" placeholder="Search: Reliance, TCS" value={chartSearchQuery} onChange={(e) => setChartSearchQuery(e.target.value)} style={{ marginBottom: '8px' }} />
-                <button className="btn" onClick={searchStockV3} style={{ marginBottom: '8px' }}>SEARCH</button>
+                <div style={{ marginBottom: '8px' }}>
+                  <InstrumentSearch value={chartSearchQuery} onChange={setChartSearchQuery} onSelect={selectChartInstrument} exchange={exchange.split('_')[0]} placeholder="Search: Reliance, TCS, tata steel" />
+                </div>
                 <input type="text" className="code-input" placeholder="Instrument Key" value={chartInstrumentKey} onChange={(e) => setChartInstrumentKey(e.target.value)} style={{ marginBottom: '8px' }} />
                 <input type="text" className="code-input" placeholder="Inc: 02/07/1981" value={chartIncorpDate} onChange={(e) => setChartIncorpDate(e.target.value)} style={{ marginBottom: '8px' }} />
                 <select className="code-input" value={chartDateRange} onChange={(e) => setChartDateRange(e.target.value)} style={{ marginBottom: '8px' }}>
@@ -721,6 +1106,31 @@ export function UpstoxConsole() {
                 <button className="btn" onClick={generateChart}>OPEN CHART</button>
               </div>
             </details>
+
+            <div className="divider"></div>
+
+            <details>
+              <summary>7. OPTION CHAIN</summary>
+              <div className="details-content">
+                <input type="text" className="code-input" placeholder="Underlying: NIFTY 50, RELIANCE" value={optionUnderlying} onChange={(e) => setOptionUnderlying(e.target.value)} style={{ marginBottom: '8px' }} />
+                <select className="code-input" value={optionSegment} onChange={(e) => setOptionSegment(e.target.value)} style={{ marginBottom: '8px' }}>
+                  <option value="NSE_INDEX">NSE_INDEX</option>
+                  <option value="NSE_EQ">NSE_EQ</option>
+                  <option value="BSE_INDEX">BSE_INDEX</option>
+                </select>
+                <button className="btn" onClick={openOptionChain}>OPEN OPTION CHAIN</button>
+              </div>
+            </details>
+
+            <div className="divider"></div>
+
+            <details onToggle={(e) => setShowDiagnostics((e.target as HTMLDetailsElement).open)}>
+              <summary>8. DIAGNOSTICS</summary>
+              <div className="details-content">
+                {/* Mounted only while open so it doesn't poll in the background */}
+                {showDiagnostics && <DiagnosticsPanel />}
+              </div>
+            </details>
           </div>
 
           <div className="panel-footer">
@@ -737,7 +1147,17 @@ export function UpstoxConsole() {
         <div className="panel">
           <div className="panel-header">
             <span>2. Instant API Response</span>
-            <span style={{ color: 'var(--text-dim)' }}>{stockResults.length} Objects</span>
+            <span style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              {liveEnabled && liveStatus && <span style={{ color: 'var(--text-dim)' }}>{liveStatus.toUpperCase()}</span>}
+              <button
+                className="btn theme-toggle"
+                onClick={() => setLiveEnabled(!liveEnabled)}
+                disabled={!isConnected || stockResults.length === 0}
+                title="Stream live prices for these stocks"
+                style={liveEnabled ? { borderColor: 'var(--success-text)', color: 'var(--success-text)' } : undefined}
+              >⚡ LIVE</button>
+              <span style={{ color: 'var(--text-dim)' }}>{stockResults.length} Objects</span>
+            </span>
           </div>
           <div style={{ padding: 0, flex: 1, overflowY: 'auto', minHeight: 0 }}>
             <div className="results-grid">
@@ -747,6 +1167,8 @@ export function UpstoxConsole() {
                 </div>
               ) : (
                 stockResults.map((stock, idx) => {
+                  const tick = liveEnabled ? liveTicks[stock.instrumentKey] : undefined;
+                  const comparison = exchangeComparisons[stock.instrumentKey];
                   const changeClass = parseFloat(stock.percentChange) >= 0 ? 'pos' : 'neg';
                   return (
                     <div key={idx} className="tech-card">
@@ -754,6 +1176,11 @@ export function UpstoxConsole() {
                         <div>
                           <span className="symbol-title">{stock.symbol}</span>
                           <span className="company-name">{stock.companyName}</span>
+                          {stock.fallbackFrom && (
+                            <span className="company-name">
+                              {stock.instrumentKey.split('|')[0]} data (none on {stock.fallbackFrom.split('|')[0]})
+                            </span>
+                          )}
                         </div>
                         <span className={`badge ${changeClass}`}>{stock.percentChange}%</span>
                       </div>
@@ -763,8 +1190,15 @@ export function UpstoxConsole() {
                           <span className="metric-val">{stock.incorporationDate}</span>
                         </div>
                         <div>
-                          <span className="metric-label">PRICE</span>
-                          <span className="metric-val">₹{stock.latestPrice}</span>
+                          <span className="metric-label">PRICE{tick || stock.provisional ? ' · LIVE' : ''}</span>
+                          {tick ? (
+                            <span className="metric-val" title={`Last trade ${new Date(tick.ltt).toLocaleTimeString('en-IN')}`}>
+                              ₹{tick.ltp.toFixed(2)}{' '}
+                              <span style={{ color: tick.change >= 0 ? 'var(--success-text)' : 'var(--error-text)' }}>{tick.changePercent >= 0 ? '+' : ''}{tick.changePercent}%</span>
+                            </span>
+                          ) : (
+                            <span className="metric-val" title={stock.provisional ? 'Today\'s candle is still forming' : undefined}>₹{stock.latestPrice}</span>
+                          )}
                         </div>
                         <div>
                           <span className="metric-label">HIGH</span>
@@ -775,6 +1209,26 @@ export function UpstoxConsole() {
                           <span className="metric-val">₹{stock.lowPrice}</span>
                         </div>
                       </div>
+                      {comparison && (
+                        <table className="mini-table">
+                          <tbody>
+                            {([['NSE', comparison.nse], ['BSE', comparison.bse]] as const).map(([exchange, quote]) => (
+                              <tr key={exchange}>
+                                <td>{exchange}</td>
+                                <td>{quote?.price != null ? `₹${quote.price.toFixed(2)}` : '—'}</td>
+                                <td>{quote?.volume != null ? quote.volume.toLocaleString('en-IN') : quote ? '—' : 'Not listed'}</td>
+                              </tr>
+                            ))}
+                            {comparison.spread !== null && (
+                              <tr>
+                                <td>SPREAD</td>
+                                <td>₹{comparison.spread.toFixed(2)}</td>
+                                <td>{comparison.spreadPercent}%</td>
+                              </tr>
+                            )}
+                          </tbody>
+                        </table>
+                      )}
                       {stock.monthlyData && stock.monthlyData.length > 0 && (
                         <table className="mini-table">
                           <tbody>
@@ -800,14 +1254,21 @@ export function UpstoxConsole() {
       {showChart && (
         <StockChart
           instrumentKey={chartInstrumentKey}
-          symbol={chartSearchQuery.toUpperCase() || chartInstrumentKey.split('|').pop()?.replace('_', ' ') || 'Stock'}
-          companyName={COMPANY_FULL_NAMES[chartSearchQuery.toUpperCase()] || chartSearchQuery.toUpperCase() || 'Company'}
+          symbol={chartSymbol}
+          companyName={companyNameFor(chartSymbol, chartDetails)}
           incorporationDate={chartIncorpDate}
           dateRange={chartDateRange}
-          accessToken={upstoxApi.getAccessToken() || ''}
           onClose={() => setShowChart(false)}
         />
       )}
+
+      {optionChainTarget && (
+        <OptionChainPanel
+          underlyingKey={optionChainTarget.underlyingKey}
+          symbol={optionChainTarget.symbol}
+          onClose={() => setOptionChainTarget(null)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,145 @@
+/**
+ * Error envelope shared by every /api route, plus the typed errors
+ * UpstoxAPI raises when a route answers with it.
+ * Safe to import from both server routes and client components.
+ */
+
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_AUTHENTICATED'
+  | 'SESSION_EXPIRED'
+  | 'INVALID_STATE'
+  | 'UNKNOWN_PROFILE'
+  | 'FORBIDDEN'
+  | 'RATE_LIMITED'
+  | 'TOKEN_EXCHANGE_FAILED'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'INVALID_INSTRUMENT_FILE'
+  | 'SERVER_MISCONFIGURED'
+  | 'INTERNAL_ERROR';
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * JSON body of every non-2xx /api response
+ */
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  details?: ValidationIssue[] | Record<string, unknown>;
+  [extra: string]: unknown;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly body: ApiErrorBody;
+
+  constructor(status: number, body: ApiErrorBody) {
+    super(body.error);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = body.code;
+    this.body = body;
+  }
+}
+
+/**
+ * The request was rejected before reaching Upstox - `issues` lists each bad field
+ */
+export class ValidationError extends ApiError {
+  readonly issues: ValidationIssue[];
+
+  constructor(status: number, body: ApiErrorBody) {
+    super(status, body);
+    this.name = 'ValidationError';
+    this.issues = Array.isArray(body.details) ? body.details : [];
+  }
+}
+
+/**
+ * No usable session (NOT_AUTHENTICATED / SESSION_EXPIRED) - the user must log in again
+ */
+export class AuthError extends ApiError {
+  readonly profileId: string | null;
+
+  constructor(status: number, body: ApiErrorBody) {
+    super(status, body);
+    this.name = 'AuthError';
+    this.profileId = typeof body.profile === 'string' ? body.profile : null;
+  }
+}
+
+export class RateLimitError extends ApiError {
+  readonly retryAfterMs: number | null;
+
+  constructor(status: number, body: ApiErrorBody) {
+    super(status, body);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = typeof body.retryAfterMs === 'number' ? body.retryAfterMs : null;
+  }
+}
+
+/**
+ * Upstox itself failed, timed out or could not be reached
+ */
+export class UpstreamError extends ApiError {
+  readonly upstoxStatus: number | null;
+
+  constructor(status: number, body: ApiErrorBody) {
+    super(status, body);
+    this.name = 'UpstreamError';
+    this.upstoxStatus = typeof body.upstoxStatus === 'number' ? body.upstoxStatus : null;
+  }
+}
+
+/**
+ * Build the typed error for an /api error response.
+ * Bodies without a code (e.g. a proxy's HTML error page) become INTERNAL_ERROR.
+ */
+export function toApiError(status: number, data: unknown): ApiError {
+  const raw = (data && typeof data === 'object' ? data : {}) as Partial<ApiErrorBody>;
+  const body: ApiErrorBody = {
+    ...raw,
+    error: typeof raw.error === 'string' ? raw.error : `Request failed with status ${status}`,
+    code: raw.code || (status === 401 ? 'NOT_AUTHENTICATED' : 'INTERNAL_ERROR')
+  };
+
+  switch (body.code) {
+    case 'INVALID_REQUEST':
+      return new ValidationError(status, body);
+    case 'NOT_AUTHENTICATED':
+    case 'SESSION_EXPIRED':
+      return new AuthError(status, body);
+    case 'RATE_LIMITED':
+      return new RateLimitError(status, body);
+    case 'UPSTREAM_ERROR':
+    case 'UPSTREAM_TIMEOUT':
+    case 'UPSTREAM_UNAVAILABLE':
+      return new UpstreamError(status, body);
+    default:
+      return new ApiError(status, body);
+  }
+}
+
+/**
+ * One line for the console log, e.g. "fromDate: must be on or before toDate"
+ */
+export function describeApiError(error: unknown): string {
+  if (error instanceof ValidationError && error.issues.length > 0) {
+    return error.issues.map(i => `${i.field}: ${i.message}`).join('; ');
+  }
+  if (error instanceof RateLimitError && error.retryAfterMs) {
+    return `${error.message} (retry in ${Math.ceil(error.retryAfterMs / 1000)}s)`;
+  }
+  // Some routes add a human explanation next to the short error
+  if (error instanceof ApiError && typeof error.body.message === 'string' && error.body.message !== error.message) {
+    return `${error.message}: ${error.body.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
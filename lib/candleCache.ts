@@ -0,0 +1,170 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * On-disk store for historical candles, one JSON file per
+ * instrument + unit + interval. Each file records which date ranges have
+ * been fetched in full so requests only go upstream for the gaps.
+ */
+
+// [timestamp, open, high, low, close, volume, open interest]
+export type Candle = [string, number, number, number, number, number, number?];
+
+// Inclusive YYYY-MM-DD range
+export type DateRange = [string, string];
+
+export interface CandleCacheEntry {
+  instrumentKey: string;
+  unit: string;
+  interval: string;
+  ranges: DateRange[]; // sorted, non-overlapping, only settled dates
+  candles: Candle[]; // ascending by timestamp
+  updatedAt: string;
+}
+
+const CACHE_DIR = process.env.CANDLE_CACHE_DIR || path.join(process.cwd(), 'data', 'candles');
+
+const DAY_MS = 86400000;
+const IST_OFFSET_MS = 5.5 * 3600000;
+
+function toDateString(ms: number): string {
+  return new Date(ms).toISOString().split('T')[0];
+}
+
+export function addDays(date: string, days: number): string {
+  return toDateString(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS);
+}
+
+/**
+ * Today's date on the exchange (IST)
+ */
+export function todayIST(): string {
+  return toDateString(Date.now() + IST_OFFSET_MS);
+}
+
+/**
+ * Last date whose candles can no longer change.
+ * The candle covering today (today's bar, this week, this month) is still forming.
+ */
+export function settledUntil(unit: string, today: string = todayIST()): string {
+  const date = new Date(`${today}T00:00:00Z`);
+
+  if (unit === 'months') {
+    return addDays(`${today.slice(0, 7)}-01`, -1);
+  }
+
+  if (unit === 'weeks') {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    return addDays(today, -daysSinceMonday - 1);
+  }
+
+  return addDays(today, -1);
+}
+
+/**
+ * Candle timestamps carry the IST offset, so the date prefix is the trading date
+ */
+export function candleDate(candle: Candle): string {
+  return candle[0].slice(0, 10);
+}
+
+/**
+ * Parts of [from, to] not covered by the cached ranges
+ */
+export function missingRanges(ranges: DateRange[], from: string, to: string): DateRange[] {
+  const missing: DateRange[] = [];
+  let cursor = from;
+
+  for (const [start, end] of ranges) {
+    if (end < cursor) continue;
+    if (start > to) break;
+    if (start > cursor) missing.push([cursor, addDays(start, -1)]);
+    cursor = addDays(end, 1);
+    if (cursor > to) return missing;
+  }
+
+  if (cursor <= to) missing.push([cursor, to]);
+  return missing;
+}
+
+/**
+ * Add a range, merging overlapping and adjacent ones
+ */
+export function addRange(ranges: DateRange[], range: DateRange): DateRange[] {
+  const sorted = [...ranges, range].sort((a, b) => a[0].localeCompare(b[0]));
+  const merged: DateRange[] = [];
+
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= addDays(last[1], 1)) {
+      if (end > last[1]) last[1] = end;
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge candles by timestamp (incoming wins) and keep them ascending
+ */
+export function mergeCandles(existing: Candle[], incoming: Candle[]): Candle[] {
+  const byTimestamp = new Map<string, Candle>();
+  existing.forEach(c => byTimestamp.set(c[0], c));
+  incoming.forEach(c => byTimestamp.set(c[0], c));
+
+  return Array.from(byTimestamp.values()).sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+function cacheFile(instrumentKey: string, unit: string, interval: string): string {
+  const safeKey = instrumentKey.replace(/[^A-Za-z0-9_-]/g, '_');
+  return path.join(CACHE_DIR, `${safeKey}__${unit}_${interval}.json`);
+}
+
+export async function readCacheEntry(instrumentKey: string, unit: string, interval: string): Promise<CandleCacheEntry | null> {
+  try {
+    const content = await fs.readFile(cacheFile(instrumentKey, unit, interval), 'utf-8');
+    return JSON.parse(content);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.warn(`Ignoring unreadable candle cache for ${instrumentKey}:`, error.message);
+    }
+    return null;
+  }
+}
+
+/**
+ * Write via a temp file + rename so readers never see a half-written entry.
+ * A read-only filesystem (e.g. serverless) just means no caching.
+ */
+export async function writeCacheEntry(entry: CandleCacheEntry): Promise<void> {
+  const file = cacheFile(entry.instrumentKey, entry.unit, entry.interval);
+  const tmpFile = `${file}.${process.pid}.tmp`;
+
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.writeFile(tmpFile, JSON.stringify(entry));
+    await fs.rename(tmpFile, file);
+  } catch (error: any) {
+    console.warn(`Candle cache write failed for ${entry.instrumentKey}:`, error.message);
+  }
+}
+
+const keyLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Serialize work per cache file so concurrent requests don't fetch the same gap twice
+ */
+export function withCacheLock<T>(instrumentKey: string, unit: string, interval: string, fn: () => Promise<T>): Promise<T> {
+  const lockKey = cacheFile(instrumentKey, unit, interval);
+  const previous = keyLocks.get(lockKey) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(fn);
+
+  keyLocks.set(lockKey, next);
+  next.catch(() => undefined).finally(() => {
+    if (keyLocks.get(lockKey) === next) keyLocks.delete(lockKey);
+  });
+
+  return next;
+}
@@ -0,0 +1,129 @@
+import {
+  Instrument,
+  InstrumentFilter,
+  InstrumentMaster,
+  MasterInstrument,
+  getInstrumentMaster,
+  segmentsFor,
+  toInstrument
+} from './instrumentMaster';
+
+/**
+ * Company name -> instrument resolution over the instrument master's `name` field.
+ * Names are normalized so "Larsen & Toubro Ltd.", "LARSEN AND TOUBRO LIMITED" and
+ * "larsen & toubro" all meet at "larsen and toubro". A name shared by several
+ * companies (or a partial name like "tata") comes back as a candidate list.
+ */
+
+export type CompanyNameMatch =
+  | { status: 'found'; instrument: Instrument; exact: boolean }
+  | { status: 'ambiguous'; candidates: Instrument[] }
+  | { status: 'not_found' };
+
+// Legal-form words that vary between sources; only dropped from the end of a name
+const LEGAL_SUFFIXES = new Set(['limited', 'ltd', 'pvt', 'private', 'plc', 'inc']);
+const MAX_CANDIDATES = 10;
+
+/**
+ * Lower-case, "&" -> "and", punctuation dropped, legal suffixes and a leading "the" removed
+ */
+export function normalizeCompanyName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    // Dots and apostrophes join ("M.R.F." -> mrf, "Reddy's" -> reddys); other punctuation separates
+    .replace(/[.']/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) words.pop();
+  if (words.length > 1 && words[0] === 'the') words.shift();
+
+  return words.join(' ');
+}
+
+/**
+ * Whether a normalized query word narrows a name match ("and" and initials don't)
+ */
+export const isSignificantWord = (word: string) => word.length > 1 && word !== 'and';
+
+interface NameEntry {
+  row: MasterInstrument;
+  name: string; // normalized
+  words: string[];
+}
+
+// Built once per loaded master, per segment
+const indexes = new WeakMap<InstrumentMaster, Map<string, NameEntry[]>>();
+
+function nameIndex(master: InstrumentMaster): Map<string, NameEntry[]> {
+  let index = indexes.get(master);
+  if (index) return index;
+
+  index = new Map();
+  master.segments.forEach((rows, segment) => {
+    const entries: NameEntry[] = [];
+    rows.forEach(row => {
+      if (!row.name) return;
+      const name = normalizeCompanyName(row.name);
+      if (name) entries.push({ row, name, words: name.split(' ') });
+    });
+    index!.set(segment, entries);
+  });
+
+  indexes.set(master, index);
+  return index;
+}
+
+// The same company on NSE and BSE shares an ISIN
+const companyId = (row: MasterInstrument) => row.isin || row.instrument_key;
+
+function distinctCompanies(entries: NameEntry[]): NameEntry[] {
+  const seen = new Set<string>();
+  return entries.filter(({ row }) => {
+    const id = companyId(row);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+/**
+ * Resolve a company name within the filter's segments (an exchange alone means its cash segment).
+ * An exact normalized name wins; otherwise names that start with the query, or contain a word
+ * starting with each query word, are candidates.
+ */
+export function resolveCompanyName(input: string, filter: InstrumentFilter): CompanyNameMatch {
+  const query = normalizeCompanyName(input);
+  if (!query) return { status: 'not_found' };
+
+  const master = getInstrumentMaster();
+  const index = nameIndex(master);
+  const entries = segmentsFor(filter, master).flatMap(segment => index.get(segment) || [])
+    .filter(e => !filter.instrumentType || e.row.instrument_type === filter.instrumentType);
+
+  const exact = distinctCompanies(entries.filter(e => e.name === query));
+  if (exact.length === 1) return { status: 'found', instrument: toInstrument(exact[0].row), exact: true };
+  if (exact.length > 1) {
+    return { status: 'ambiguous', candidates: exact.slice(0, MAX_CANDIDATES).map(e => toInstrument(e.row)) };
+  }
+
+  const queryWords = query.split(' ').filter(isSignificantWord);
+  const partial = distinctCompanies(entries.filter(e =>
+    e.name.startsWith(query) ||
+    (queryWords.length > 0 && queryWords.every(word => e.words.some(w => w.startsWith(word))))
+  ));
+
+  if (partial.length === 0) return { status: 'not_found' };
+  if (partial.length === 1) return { status: 'found', instrument: toInstrument(partial[0].row), exact: false };
+
+  // Names that start with the query first, then the shortest (closest) names
+  partial.sort((a, b) =>
+    Number(b.name.startsWith(query)) - Number(a.name.startsWith(query)) ||
+    a.name.length - b.name.length ||
+    a.name.localeCompare(b.name)
+  );
+  return { status: 'ambiguous', candidates: partial.slice(0, MAX_CANDIDATES).map(e => toInstrument(e.row)) };
+}
@@ -1,3 +1,5 @@
+import { currentConstituents } from './indexConstituents';
+
 export const INSTRUMENTS = {
   NSE_EQ: {
     'RELIANCE': 'NSE_EQ|INE002A01018', 'TCS': 'NSE_EQ|INE467B01029', 'HDFCBANK': 'NSE_EQ|INE040A01034',
@@ -83,13 +85,14 @@ export const COMPANY_FULL_NAMES: Record<string, string> = {
   'TATACONSUM': 'Tata Consumer Products Limited'
 };
 
-export const NIFTY_50 = ['RELIANCE','TCS','HDFCBANK','INFY','ICICIBANK','HINDUNILVR','ITC','SBIN','BHARTIARTL','KOTAKBANK','BAJFINANCE','LT','ASIANPAINT','AXISBANK','MARUTI','TITAN','SUNPHARMA','ULTRACEMCO','NESTLEIND','WIPRO','HCLTECH','TECHM','POWERGRID','NTPC','BAJAJFINSV','M&M','ONGC','TATASTEEL','ADANIPORTS','JSWSTEEL','INDUSINDBK','GRASIM','TATAMOTORS','DIVISLAB','DRREDDY','BRITANNIA','CIPLA','EICHERMOT','HINDALCO','BPCL','COALINDIA','HEROMOTOCO','UPL','SHREECEM','APOLLOHOSP','SBILIFE','BAJAJ-AUTO','ADANIENT','HDFCLIFE','TATACONSUM'];
+// Today's index members; dated histories for point-in-time lists are in lib/index-constituents.json
+export const NIFTY_50 = currentConstituents('NIFTY_50');
 
-export const NIFTY_NEXT_50 = ['ADANIPOWER','AMBUJACEM','ADANIGREEN','BAJAJHLDNG','BANDHANBNK','BEL','BERGEPAINT','BOSCHLTD','CANBK','CHOLAFIN','COLPAL','DABUR','DLF','GAIL','GODREJCP','HAVELLS','HDFCAMC','ICICIGI','ICICIPRULI','INDIGO','INDUSTOWER','IOC','JSWENERGY','LICHSGFIN','LUPIN','MARICO','NAUKRI','NMDC','PGHH','PIDILITIND','PNB','RECLTD','SBICARD','SHRIRAMFIN','SIEMENS','SRF','TATACOMM','TATAPOWER','TORNTPHARM','TRENT','UNIONBANK','MCDOWELL-N','HINDPETRO','SAIL','VEDL','VOLTAS','ZOMATO','ZYDUSLIFE','MOTHERSON','LTIM'];
+export const NIFTY_NEXT_50 = currentConstituents('NIFTY_NEXT_50');
 
-export const BANK_NIFTY = ['HDFCBANK','ICICIBANK','SBIN','KOTAKBANK','AXISBANK','INDUSINDBK','AUBANK','BANDHANBNK','FEDERALBNK','IDFCFIRSTB','PNB','BANKBARODA'];
+export const BANK_NIFTY = currentConstituents('BANK_NIFTY');
 
-export const SENSEX = ['RELIANCE','TCS','HDFCBANK','INFY','ICICIBANK','HINDUNILVR','ITC','SBIN','BHARTIARTL','KOTAKBANK','BAJFINANCE','LT','ASIANPAINT','AXISBANK','MARUTI','TITAN','SUNPHARMA','ULTRACEMCO','NESTLEIND','WIPRO','HCLTECH','TECHM','POWERGRID','NTPC','BAJAJFINSV','M&M','TATASTEEL','INDUSINDBK','TATAMOTORS','JIOFIN'];
+export const SENSEX = currentConstituents('SENSEX');
 
 export const SECTOR_STOCKS = {
   banking: ['HDFCBANK','ICICIBANK','SBIN','KOTAKBANK','AXISBANK','INDUSINDBK','FEDERALBNK','BANDHANBNK','IDFCFIRSTB','PNB','CANBK','BANKBARODA','AUBANK','UNIONBANK'],
@@ -0,0 +1,79 @@
+import { Instrument, InstrumentMaster, MasterInstrument, getInstrumentMaster, toInstrument } from './instrumentMaster';
+
+/**
+ * NSE <-> BSE mapping for listed equities.
+ * A company's shares carry the same ISIN on both exchanges (NSE_EQ|INE002A01018,
+ * BSE_EQ|INE002A01018), even where the trading symbols differ, so the cash-segment
+ * rows of the instrument master are grouped by ISIN.
+ */
+
+export interface CrossListing {
+  isin: string;
+  name: string | null;
+  nse: Instrument | null;
+  bse: Instrument | null;
+}
+
+const NSE_SEGMENT = 'NSE_EQ';
+const BSE_SEGMENT = 'BSE_EQ';
+
+const ISIN_PATTERN = /^IN[A-Z0-9]{9}\d$/;
+
+interface IsinIndex {
+  byIsin: Map<string, { nse?: MasterInstrument; bse?: MasterInstrument }>;
+  isinByKey: Map<string, string>;
+}
+
+// Built once per loaded master
+const indexes = new WeakMap<InstrumentMaster, IsinIndex>();
+
+function isinIndex(master: InstrumentMaster): IsinIndex {
+  let index = indexes.get(master);
+  if (index) return index;
+
+  index = { byIsin: new Map(), isinByKey: new Map() };
+  for (const [segment, side] of [[NSE_SEGMENT, 'nse'], [BSE_SEGMENT, 'bse']] as const) {
+    master.segments.get(segment)?.forEach(row => {
+      if (!row.isin) return;
+      const listing = index!.byIsin.get(row.isin) || {};
+      // First row wins if an exchange lists an ISIN twice (e.g. a second series)
+      listing[side] ??= row;
+      index!.byIsin.set(row.isin, listing);
+      index!.isinByKey.set(row.instrument_key, row.isin);
+    });
+  }
+
+  indexes.set(master, index);
+  return index;
+}
+
+function isinFor(id: string, master: InstrumentMaster, index: IsinIndex): string | null {
+  const value = id.trim();
+  const upper = value.toUpperCase();
+
+  if (ISIN_PATTERN.test(upper)) return upper;
+  if (value.includes('|')) return index.isinByKey.get(value) || null;
+
+  // A trading symbol - NSE first, since BSE symbols sometimes differ
+  const row = master.segments.get(NSE_SEGMENT)?.get(upper) || master.segments.get(BSE_SEGMENT)?.get(upper);
+  return row?.isin || null;
+}
+
+/**
+ * Both exchanges' listings for a symbol, instrument key or ISIN; null if it isn't a listed equity
+ */
+export function findCrossListing(id: string): CrossListing | null {
+  const master = getInstrumentMaster();
+  const index = isinIndex(master);
+
+  const isin = isinFor(id, master, index);
+  const listing = isin ? index.byIsin.get(isin) : undefined;
+  if (!isin || !listing) return null;
+
+  return {
+    isin,
+    name: listing.nse?.name || listing.bse?.name || null,
+    nse: listing.nse ? toInstrument(listing.nse) : null,
+    bse: listing.bse ? toInstrument(listing.bse) : null
+  };
+}
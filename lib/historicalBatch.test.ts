@@ -0,0 +1,154 @@
+import { after, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import type { HistoricalBatchResult } from './historicalBatch';
+
+// A stand-in Upstox that answers every historical-candle call with one candle
+// whose close identifies the instrument, and counts the calls per instrument.
+// Keys in rateLimited get that many 429s first.
+const RELIANCE = 'NSE_EQ|INE002A01018';
+const TCS = 'NSE_EQ|INE467B01029';
+const INFY = 'NSE_EQ|INE009A01021';
+const CLOSES: Record<string, number> = { [RELIANCE]: 2900, [TCS]: 4100, [INFY]: 1500 };
+let calls: Record<string, number> = {};
+let rateLimited: Record<string, number> = {};
+
+const upstox = http.createServer((req, res) => {
+  const instrumentKey = decodeURIComponent(req.url!.split('/')[3]);
+  calls[instrumentKey] = (calls[instrumentKey] || 0) + 1;
+  res.setHeader('Content-Type', 'application/json');
+  if (rateLimited[instrumentKey] > 0) {
+    rateLimited[instrumentKey]--;
+    res.statusCode = 429;
+    res.setHeader('Retry-After', '0');
+    res.end(JSON.stringify({ status: 'error', errors: [{ message: 'Too many requests' }] }));
+    return;
+  }
+  res.end(JSON.stringify({
+    status: 'success',
+    data: { candles: [['2024-01-02T00:00:00+05:30', 1, 1, 1, CLOSES[instrumentKey], 100, 0]] }
+  }));
+});
+
+let runHistoricalBatch: typeof import('./historicalBatch').runHistoricalBatch;
+let POST: typeof import('../app/api/historical/batch/route').POST;
+let sessionCookie: string;
+let cacheDir: string;
+
+before(async () => {
+  await new Promise<void>(resolve => upstox.listen(0, '127.0.0.1', resolve));
+  cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'candles-'));
+  // Read when the modules load, so set before importing them
+  process.env.UPSTOX_API_BASE_URL = `http://127.0.0.1:${(upstox.address() as AddressInfo).port}`;
+  process.env.CANDLE_CACHE_DIR = cacheDir;
+  process.env.SESSION_SECRET = 'test-secret';
+  ({ runHistoricalBatch } = await import('./historicalBatch'));
+  ({ POST } = await import('../app/api/historical/batch/route'));
+
+  const { SESSION_COOKIE_NAME, setSession } = await import('./session');
+  const response = NextResponse.json({});
+  setSession(response, {
+    activeProfileId: 'TEST01',
+    profiles: [{ id: 'TEST01', name: 'Test', accessToken: 'test-token', createdAt: Date.now(), expiresAt: Date.now() + 3600000 }]
+  });
+  sessionCookie = `${SESSION_COOKIE_NAME}=${response.cookies.get(SESSION_COOKIE_NAME)!.value}`;
+});
+
+beforeEach(() => {
+  calls = {};
+  rateLimited = {};
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+after(() => {
+  upstox.close();
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+test('a repeated key is fetched once and reported at every index it was sent at', async () => {
+  const results: HistoricalBatchResult[] = [];
+
+  const summary = await runHistoricalBatch(
+    {
+      accessToken: 'test-token',
+      instrumentKeys: [RELIANCE, RELIANCE, TCS],
+      unit: 'days',
+      interval: '1',
+      fromDate: '2024-01-01',
+      toDate: '2024-01-05',
+      includeToday: false
+    },
+    result => results.push(result)
+  );
+
+  const byIndex = results.sort((a, b) => a.index - b.index);
+  assert.deepEqual(byIndex.map(r => [r.index, r.instrumentKey, r.status]), [
+    [0, RELIANCE, 'ok'],
+    [1, RELIANCE, 'ok'],
+    [2, TCS, 'ok']
+  ]);
+  assert.equal(byIndex[2].status === 'ok' && byIndex[2].candles[0][4], 4100);
+  assert.deepEqual(calls, { [RELIANCE]: 1, [TCS]: 1 });
+  assert.equal(summary.total, 3);
+  assert.equal(summary.succeeded, 3);
+  assert.equal(summary.failed, 0);
+});
+
+test('an item rate limited after the other workers have finished is still fetched', async () => {
+  // More 429s than upstoxRequest retries, so the batch itself has to requeue it
+  rateLimited = { [INFY]: 4 };
+  const results: HistoricalBatchResult[] = [];
+
+  const summary = await runHistoricalBatch(
+    {
+      accessToken: 'test-token',
+      instrumentKeys: [RELIANCE, TCS, INFY],
+      unit: 'days',
+      interval: '1',
+      fromDate: '2024-01-01',
+      toDate: '2024-01-05',
+      includeToday: false
+    },
+    result => results.push(result)
+  );
+
+  assert.deepEqual(results.sort((a, b) => a.index - b.index).map(r => [r.index, r.status]), [
+    [0, 'ok'],
+    [1, 'ok'],
+    [2, 'ok']
+  ]);
+  assert.equal(calls[INFY], 5);
+  assert.equal(summary.succeeded, 3);
+  assert.equal(summary.failed, 0);
+});
+
+test('POST /api/historical/batch indexes results by the client\'s list, duplicates included', async () => {
+  const request = new NextRequest('http://localhost/api/historical/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', cookie: sessionCookie },
+    body: JSON.stringify({
+      instruments: [RELIANCE, RELIANCE, TCS],
+      unit: 'days',
+      interval: '1',
+      fromDate: '2024-01-01',
+      toDate: '2024-01-05'
+    })
+  });
+
+  const response = await POST(request);
+  assert.equal(response.status, 200);
+
+  const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+  const results = lines.filter(line => line.type === 'result').sort((a, b) => a.index - b.index);
+  assert.deepEqual(results.map(r => [r.index, r.instrumentKey, r.candles[0][4]]), [
+    [0, RELIANCE, 2900],
+    [1, RELIANCE, 2900],
+    [2, TCS, 4100]
+  ]);
+  assert.deepEqual(lines[lines.length - 1], { ...lines[lines.length - 1], type: 'done', total: 3, succeeded: 3, failed: 0 });
+});
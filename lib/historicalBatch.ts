@@ -0,0 +1,132 @@
+import { ApiErrorCode } from './apiErrors';
+import { Candle } from './candleCache';
+import { CandleMeta, getCandlesWithToday } from './intradayCandles';
+import { describeUpstreamError } from './upstoxClient';
+
+/**
+ * Historical candles for many instruments in one server-side run.
+ * Instruments are fetched a few at a time; when Upstox still answers 429 after
+ * upstoxRequest's own retries, the pool shrinks, pauses and requeues the
+ * instrument instead of failing it. Each result is reported as soon as it lands.
+ * A key listed more than once is fetched once and reported under each of its indices.
+ */
+
+// Instruments fetched in parallel at the start (each may fetch several chunks)
+const INITIAL_CONCURRENCY = 3;
+// Pause after a rate limit when Upstox sends no Retry-After
+const RATE_LIMIT_PAUSE_MS = 2000;
+// Times one instrument is requeued after rate limits before it is reported failed
+const MAX_REQUEUES = 2;
+
+export interface HistoricalBatchRequest {
+  accessToken: string;
+  instrumentKeys: string[];
+  unit: string;
+  interval: string;
+  fromDate: string;
+  toDate: string;
+  includeToday: boolean;
+}
+
+export type HistoricalBatchResult =
+  | { index: number; instrumentKey: string; status: 'ok'; candles: Candle[]; meta: CandleMeta }
+  | { index: number; instrumentKey: string; status: 'failed'; error: string; code: ApiErrorCode };
+
+export interface HistoricalBatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  elapsedMs: number;
+}
+
+interface QueuedInstrument {
+  indices: number[]; // every position of the key in the request
+  instrumentKey: string;
+  requeues: number;
+}
+
+/**
+ * Fetch every instrument, calling onResult as each one finishes (in completion order).
+ * Rejects with the upstream error on a 401 - the token is dead, so the rest would fail too.
+ */
+export async function runHistoricalBatch(
+  request: HistoricalBatchRequest,
+  onResult: (result: HistoricalBatchResult) => void
+): Promise<HistoricalBatchSummary> {
+  const started = Date.now();
+  const { instrumentKeys, includeToday, ...range } = request;
+  const byKey = new Map<string, QueuedInstrument>();
+  instrumentKeys.forEach((instrumentKey, index) => {
+    const queued = byKey.get(instrumentKey);
+    if (queued) queued.indices.push(index);
+    else byKey.set(instrumentKey, { instrumentKey, indices: [index], requeues: 0 });
+  });
+  const queue = Array.from(byKey.values());
+
+  let concurrency = INITIAL_CONCURRENCY;
+  let resumeAt = 0;
+  let fatal: any = null;
+  let succeeded = 0;
+  let failed = 0;
+  let running = 0;
+
+  const worker = async (slot: number) => {
+    running++;
+    // finally runs synchronously on return, so `running` is exact for the retire check
+    try {
+      while (queue.length > 0 && !fatal) {
+        // The pool shrank after a rate limit - surplus workers retire, but the last
+        // one keeps going: the others may already have left the queue to it
+        if (slot >= concurrency && running > 1) return;
+
+        const wait = resumeAt - Date.now();
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+          continue;
+        }
+
+        const item = queue.shift()!;
+
+        try {
+          const { candles, meta } = await getCandlesWithToday({ ...range, instrumentKey: item.instrumentKey }, includeToday);
+          for (const index of item.indices) {
+            succeeded++;
+            onResult({ index, instrumentKey: item.instrumentKey, status: 'ok', candles, meta });
+          }
+        } catch (error: any) {
+          if (error.response?.status === 401) {
+            fatal = error;
+            return;
+          }
+
+          const failure = describeUpstreamError(error, 'Failed to fetch historical data');
+
+          if (failure.code === 'RATE_LIMITED') {
+            concurrency = Math.max(1, concurrency - 1);
+            resumeAt = Date.now() + (failure.retryAfterMs ?? RATE_LIMIT_PAUSE_MS);
+            console.warn(`⚠️ [batch] rate limited - ${concurrency} worker(s), resuming in ${resumeAt - Date.now()}ms`);
+
+            if (item.requeues < MAX_REQUEUES) {
+              item.requeues++;
+              queue.push(item);
+              continue;
+            }
+          }
+
+          for (const index of item.indices) {
+            failed++;
+            onResult({ index, instrumentKey: item.instrumentKey, status: 'failed', error: failure.message, code: failure.code });
+          }
+        }
+      }
+    } finally {
+      running--;
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, (_, slot) => worker(slot)));
+
+  if (fatal) throw fatal;
+
+  return { total: instrumentKeys.length, succeeded, failed, elapsedMs: Date.now() - started };
+}
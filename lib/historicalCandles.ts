@@ -0,0 +1,180 @@
+import {
+  Candle,
+  DateRange,
+  addRange,
+  candleDate,
+  mergeCandles,
+  missingRanges,
+  readCacheEntry,
+  settledUntil,
+  withCacheLock,
+  writeCacheEntry
+} from './candleCache';
+import { mapWithConcurrency } from './concurrency';
+import { recordCandleCache } from './metrics';
+import { upstoxRequest } from './upstoxClient';
+
+/**
+ * Historical candles backed by the on-disk candle cache.
+ * Only the date ranges missing from the cache are fetched from Upstox,
+ * split into windows no longer than one historical-candle call allows.
+ */
+
+const DAY_MS = 86400000;
+// Chunks fetched in parallel for one request
+const CHUNK_CONCURRENCY = 3;
+
+export interface HistoricalCandleRequest {
+  accessToken: string;
+  instrumentKey: string;
+  unit: string;
+  interval: string;
+  fromDate: string;
+  toDate: string;
+}
+
+export interface ChunkReport {
+  fromDate: string;
+  toDate: string;
+  status: 'ok' | 'failed';
+  candles: number;
+  error?: string;
+}
+
+export interface HistoricalCandleResult {
+  candles: Candle[]; // newest first, like Upstox
+  cache: {
+    status: 'hit' | 'partial' | 'miss';
+    fetched: DateRange[];
+  };
+  chunks: ChunkReport[];
+  partial: boolean; // some chunks failed - their ranges are missing from `candles`
+}
+
+/**
+ * Longest range (in days) a single V3 historical-candle call accepts:
+ * 1 month for 1-15 minute candles, a quarter for larger minute and hour
+ * candles, a decade for days, unlimited for weeks and months.
+ */
+export function maxRangeDays(unit: string, interval: string): number | null {
+  switch (unit) {
+    case 'minutes':
+      return parseInt(interval) <= 15 ? 30 : 90;
+    case 'hours':
+      return 90;
+    case 'days':
+      return 3650;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split a range into consecutive windows of at most maxDays days
+ */
+export function splitRange([fromDate, toDate]: DateRange, maxDays: number | null): DateRange[] {
+  if (!maxDays) return [[fromDate, toDate]];
+
+  const chunks: DateRange[] = [];
+  let start = Date.parse(`${fromDate}T00:00:00Z`);
+  const end = Date.parse(`${toDate}T00:00:00Z`);
+
+  while (start <= end) {
+    const chunkEnd = Math.min(end, start + (maxDays - 1) * DAY_MS);
+    chunks.push([
+      new Date(start).toISOString().split('T')[0],
+      new Date(chunkEnd).toISOString().split('T')[0]
+    ]);
+    start = chunkEnd + DAY_MS;
+  }
+
+  return chunks;
+}
+
+async function fetchCandleRange(request: HistoricalCandleRequest, [fromDate, toDate]: DateRange): Promise<Candle[]> {
+  const { accessToken, instrumentKey, unit, interval } = request;
+
+  const response = await upstoxRequest({
+    endpoint: 'historical',
+    path: `/v3/historical-candle/${encodeURIComponent(instrumentKey)}/${unit}/${interval}/${toDate}/${fromDate}`,
+    accessToken
+  });
+
+  return response.data?.data?.candles || [];
+}
+
+export async function getHistoricalCandles(request: HistoricalCandleRequest): Promise<HistoricalCandleResult> {
+  const { instrumentKey, unit, interval, fromDate, toDate } = request;
+
+  return withCacheLock(instrumentKey, unit, interval, async () => {
+    const entry = await readCacheEntry(instrumentKey, unit, interval);
+    const gaps = missingRanges(entry?.ranges || [], fromDate, toDate);
+
+    let candles = entry?.candles || [];
+    let ranges = entry?.ranges || [];
+
+    const settled = settledUntil(unit);
+    const chunks = gaps.flatMap(gap => splitRange(gap, maxRangeDays(unit, interval)));
+
+    const outcomes = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk) => {
+      try {
+        return { chunk, candles: await fetchCandleRange(request, chunk), error: null };
+      } catch (error: any) {
+        return { chunk, candles: [] as Candle[], error };
+      }
+    });
+
+    const failures = outcomes.filter(o => o.error);
+
+    // Nothing usable, or the token is dead - let the route map the upstream error
+    const authFailure = failures.find(o => o.error.response?.status === 401);
+    if (authFailure) throw authFailure.error;
+    if (chunks.length > 0 && failures.length === chunks.length) throw failures[0].error;
+
+    for (const outcome of outcomes) {
+      if (outcome.error) continue;
+      // Chunks overlap at most on boundaries; mergeCandles de-duplicates by timestamp
+      candles = mergeCandles(candles, outcome.candles);
+
+      // Only dates whose candles are final count as covered
+      const [chunkFrom, chunkTo] = outcome.chunk;
+      const coveredTo = chunkTo < settled ? chunkTo : settled;
+      if (chunkFrom <= coveredTo) {
+        ranges = addRange(ranges, [chunkFrom, coveredTo]);
+      }
+    }
+
+    if (gaps.length > 0) {
+      await writeCacheEntry({
+        instrumentKey,
+        unit,
+        interval,
+        ranges,
+        // Forming candles are served but never persisted
+        candles: candles.filter(c => candleDate(c) <= settled),
+        updatedAt: new Date().toISOString()
+      });
+    }
+
+    const served = candles
+      .filter(c => candleDate(c) >= fromDate && candleDate(c) <= toDate)
+      .reverse();
+
+    const fullMiss = gaps.length === 1 && gaps[0][0] === fromDate && gaps[0][1] === toDate;
+    const status = gaps.length === 0 ? 'hit' : fullMiss ? 'miss' : 'partial';
+    recordCandleCache(status);
+
+    return {
+      candles: served,
+      cache: { status, fetched: gaps },
+      chunks: outcomes.map(({ chunk, candles: chunkCandles, error }) => ({
+        fromDate: chunk[0],
+        toDate: chunk[1],
+        status: error ? 'failed' as const : 'ok' as const,
+        candles: chunkCandles.length,
+        ...(error ? { error: error.response?.data?.errors?.[0]?.message || error.message } : {})
+      })),
+      partial: failures.length > 0
+    };
+  });
+}
@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IncompleteHistoryError, constituentsAsOf, historyStart } from './indexConstituents';
+
+test('dates inside the recorded history return that date\'s members', () => {
+  const constituents = constituentsAsOf('NIFTY_50', '2020-01-01');
+  assert.equal(constituents.symbols.length, 50);
+  assert.ok(constituents.symbols.includes('YESBANK'));
+});
+
+test('dates before the recorded history throw instead of using today\'s members', () => {
+  assert.throws(() => constituentsAsOf('NIFTY_50', '2015-01-01'), IncompleteHistoryError);
+  assert.throws(() => constituentsAsOf('BANK_NIFTY', '2024-01-01'), IncompleteHistoryError);
+  assert.equal(historyStart('NIFTY_50'), '2019-01-01');
+  assert.ok(constituentsAsOf('BANK_NIFTY').symbols.length > 0);
+});
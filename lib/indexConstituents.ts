@@ -0,0 +1,88 @@
+import histories from './index-constituents.json';
+
+/**
+ * Point-in-time index membership.
+ * lib/index-constituents.json lists every stock that has been in each index
+ * with its inclusion (`from`) and exclusion (`to`) dates, so a study starting in
+ * 2019 gets the 2019 members - including later dropouts like YESBANK - rather
+ * than only today's survivors. Dates are the exchange's effective dates: a stock
+ * is a member from `from` up to, but not on, `to`.
+ */
+
+export type IndexId = 'NIFTY_50' | 'NIFTY_NEXT_50' | 'BANK_NIFTY' | 'SENSEX';
+
+export interface ConstituentPeriod {
+  symbol: string;
+  from: string | null; // YYYY-MM-DD; null = already a member when the history starts
+  to: string | null; // YYYY-MM-DD; null = still a member
+}
+
+export interface IndexHistory {
+  name: string;
+  completeFrom: string | null; // every change from this date on is recorded; null = current members only
+  updatedThrough: string | null; // latest change in the file
+  members: ConstituentPeriod[];
+}
+
+export interface Constituents {
+  index: IndexId;
+  name: string;
+  asOf: string;
+  symbols: string[];
+  completeFrom: string | null;
+}
+
+/**
+ * The index's change log doesn't reach back to the requested date. Thrown rather than
+ * answering with today's members, which would bring back the survivorship bias.
+ */
+export class IncompleteHistoryError extends Error {
+  constructor(readonly index: IndexId, readonly asOf: string, readonly completeFrom: string | null) {
+    const name = HISTORIES[index].name;
+    super(completeFrom
+      ? `${name} membership is recorded from ${completeFrom}, not ${asOf}`
+      : `${name} has no dated membership history - only today's members are known`);
+    this.name = 'IncompleteHistoryError';
+  }
+}
+
+const HISTORIES = histories as Record<IndexId, IndexHistory>;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const isMember = (period: ConstituentPeriod, date: string) =>
+  (period.from === null || period.from <= date) && (period.to === null || date < period.to);
+
+/**
+ * Earliest date constituentsAsOf answers for (today when the index has no dated history)
+ */
+export function historyStart(index: IndexId): string {
+  return HISTORIES[index].completeFrom ?? today();
+}
+
+/**
+ * Members of an index on a date (YYYY-MM-DD, default today), in the file's order.
+ * Throws IncompleteHistoryError for past dates before the index's completeFrom.
+ */
+export function constituentsAsOf(index: IndexId, asOf: string = today()): Constituents {
+  const history = HISTORIES[index];
+
+  if (asOf < historyStart(index)) {
+    throw new IncompleteHistoryError(index, asOf, history.completeFrom);
+  }
+
+  return {
+    index,
+    name: history.name,
+    asOf,
+    symbols: history.members.filter(period => isMember(period, asOf)).map(period => period.symbol),
+    completeFrom: history.completeFrom
+  };
+}
+
+/**
+ * Today's members
+ */
+export function currentConstituents(index: IndexId): string[] {
+  return constituentsAsOf(index).symbols;
+}
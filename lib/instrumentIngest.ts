@@ -0,0 +1,366 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+import { INSTRUMENTS_FILE, MasterInstrument, invalidateInstrumentMaster } from './instrumentMaster';
+
+/**
+ * Refresh pipeline for the instrument master.
+ * Takes Upstox's daily instrument file (downloaded, or a copy dropped on disk),
+ * validates it, stores it as a versioned snapshot, diffs it against the live
+ * master and then swaps it in as INSTRUMENTS_FILE. Used by
+ * scripts/ingest-instruments.ts and /api/admin/instruments.
+ *
+ * data/instruments/
+ *   manifest.json           versions, newest first
+ *   snapshots/<version>.json.gz
+ *   diffs/<version>.json    what changed versus the previous live master
+ *   incoming/               drop files here for { source: 'file' }
+ */
+
+export const UPSTOX_INSTRUMENTS_URL = process.env.UPSTOX_INSTRUMENTS_URL ||
+  'https://assets.upstox.com/market-quote/instruments/exchange/complete.json.gz';
+
+const STORE_DIR = process.env.INSTRUMENT_STORE_DIR || path.join(process.cwd(), 'data', 'instruments');
+export const INCOMING_DIR = path.join(STORE_DIR, 'incoming');
+const SNAPSHOT_DIR = path.join(STORE_DIR, 'snapshots');
+const DIFF_DIR = path.join(STORE_DIR, 'diffs');
+const MANIFEST_FILE = path.join(STORE_DIR, 'manifest.json');
+
+const DOWNLOAD_TIMEOUT_MS = 120000;
+// Snapshots kept on disk; diffs are small and kept for good
+const KEEP_SNAPSHOTS = 10;
+
+// Validation - the complete file has ~100k rows; anything this small is truncated
+const MIN_ROWS = 100;
+const MAX_INVALID_RATIO = 0.01;
+const REQUIRED_SEGMENTS = ['NSE_EQ'];
+// More delistings than this (share of the previous master) looks like a broken file, not a market event
+const MAX_DELISTED_RATIO = 0.1;
+
+/**
+ * Derivative contracts are listed and expire every day - diffing them is noise
+ */
+const isDiffedSegment = (segment: string) => !segment.endsWith('_FO');
+
+export type IngestSource = { kind: 'upstox'; url?: string } | { kind: 'file'; filePath: string };
+
+export interface SnapshotInfo {
+  version: string;
+  createdAt: string;
+  source: string; // URL or file name
+  sha256: string;
+  rows: number;
+  segments: Record<string, number>;
+  diff: DiffSummary | null; // null for the first snapshot
+}
+
+export interface InstrumentManifest {
+  current: string | null;
+  snapshots: SnapshotInfo[]; // newest first
+}
+
+export interface DiffEntry {
+  segment: string;
+  trading_symbol: string;
+  instrument_key: string;
+  name?: string;
+}
+
+export interface InstrumentDiff {
+  from: string | null; // version, or null when the previous file wasn't ingested here
+  to: string;
+  segments: string[];
+  added: DiffEntry[];
+  delisted: DiffEntry[];
+  // Same symbol, new key - watchlists holding the old key break
+  keyChanged: { segment: string; trading_symbol: string; from: string; to: string }[];
+  // Same key, new symbol - symbol-based lookups break
+  renamed: { segment: string; instrument_key: string; from: string; to: string }[];
+}
+
+export interface DiffSummary {
+  added: number;
+  delisted: number;
+  keyChanged: number;
+  renamed: number;
+}
+
+export interface IngestResult {
+  unchanged: boolean; // identical to the current snapshot - nothing written
+  snapshot: SnapshotInfo;
+  diff: InstrumentDiff | null;
+}
+
+/**
+ * The file failed validation; `issues` says why. Nothing was written.
+ */
+export class InstrumentFileError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid instrument file: ${issues.join('; ')}`);
+    this.name = 'InstrumentFileError';
+  }
+}
+
+async function readSource(source: IngestSource): Promise<{ buffer: Buffer; label: string }> {
+  if (source.kind === 'file') {
+    return { buffer: await fs.readFile(source.filePath), label: path.basename(source.filePath) };
+  }
+
+  const url = source.url || UPSTOX_INSTRUMENTS_URL;
+  console.log(`📡 [instruments] GET ${url}`);
+  const response = await axios.get<ArrayBuffer>(url, {
+    responseType: 'arraybuffer',
+    timeout: DOWNLOAD_TIMEOUT_MS,
+    // Keep the body gzipped as sent; decode() unzips it
+    decompress: false
+  });
+  return { buffer: Buffer.from(response.data), label: url };
+}
+
+function decode(buffer: Buffer): unknown {
+  // gzip magic bytes - covers .json.gz and servers that don't set Content-Encoding
+  const json = buffer[0] === 0x1f && buffer[1] === 0x8b ? zlib.gunzipSync(buffer) : buffer;
+  try {
+    return JSON.parse(json.toString('utf-8'));
+  } catch (error: any) {
+    throw new InstrumentFileError([`not valid JSON (${error.message})`]);
+  }
+}
+
+/**
+ * Check the file's shape and keep the usable rows.
+ * A few malformed rows are dropped; too many, or missing core segments, reject the file.
+ */
+export function validateInstrumentRows(data: unknown): MasterInstrument[] {
+  if (!Array.isArray(data)) {
+    throw new InstrumentFileError(['expected a JSON array of instruments']);
+  }
+
+  const rows: MasterInstrument[] = [];
+  const keys = new Set<string>();
+  let invalid = 0;
+
+  for (const row of data) {
+    const valid = row && typeof row === 'object' &&
+      typeof row.segment === 'string' && row.segment &&
+      typeof row.trading_symbol === 'string' && row.trading_symbol &&
+      typeof row.instrument_key === 'string' && row.instrument_key.startsWith(`${row.segment}|`) &&
+      !keys.has(row.instrument_key);
+
+    if (!valid) {
+      invalid++;
+      continue;
+    }
+
+    keys.add(row.instrument_key);
+    rows.push(row);
+  }
+
+  const issues: string[] = [];
+  if (rows.length < MIN_ROWS) {
+    issues.push(`only ${rows.length} valid rows (expected at least ${MIN_ROWS})`);
+  }
+  if (data.length > 0 && invalid / data.length > MAX_INVALID_RATIO) {
+    issues.push(`${invalid} of ${data.length} rows are malformed or duplicated`);
+  }
+  for (const segment of REQUIRED_SEGMENTS) {
+    if (!rows.some(r => r.segment === segment)) issues.push(`no ${segment} instruments`);
+  }
+
+  if (issues.length > 0) throw new InstrumentFileError(issues);
+  return rows;
+}
+
+function segmentCounts(rows: MasterInstrument[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  rows.forEach(r => { counts[r.segment] = (counts[r.segment] || 0) + 1; });
+  return counts;
+}
+
+/**
+ * Added/delisted symbols, changed keys and renamed symbols in the non-derivative segments
+ */
+export function diffInstruments(
+  previous: MasterInstrument[],
+  next: MasterInstrument[],
+  from: string | null,
+  to: string
+): InstrumentDiff {
+  const bySymbol = (rows: MasterInstrument[]) =>
+    new Map(rows.filter(r => isDiffedSegment(r.segment)).map(r => [`${r.segment}|${r.trading_symbol}`, r]));
+  const byKey = (rows: MasterInstrument[]) =>
+    new Map(rows.filter(r => isDiffedSegment(r.segment)).map(r => [r.instrument_key, r]));
+
+  const before = bySymbol(previous);
+  const after = bySymbol(next);
+  const keysBefore = byKey(previous);
+  const keysAfter = byKey(next);
+
+  const entry = (r: MasterInstrument): DiffEntry => ({
+    segment: r.segment,
+    trading_symbol: r.trading_symbol,
+    instrument_key: r.instrument_key,
+    ...(r.name ? { name: r.name } : {})
+  });
+
+  const diff: InstrumentDiff = {
+    from,
+    to,
+    segments: Array.from(new Set(next.map(r => r.segment).filter(isDiffedSegment))).sort(),
+    added: [],
+    delisted: [],
+    keyChanged: [],
+    renamed: []
+  };
+
+  after.forEach((row, id) => {
+    const old = before.get(id);
+    if (old) {
+      if (old.instrument_key !== row.instrument_key) {
+        diff.keyChanged.push({ segment: row.segment, trading_symbol: row.trading_symbol, from: old.instrument_key, to: row.instrument_key });
+      }
+      return;
+    }
+
+    // A new symbol on an existing key is a rename, not a listing
+    const sameKey = keysBefore.get(row.instrument_key);
+    if (sameKey) {
+      diff.renamed.push({ segment: row.segment, instrument_key: row.instrument_key, from: sameKey.trading_symbol, to: row.trading_symbol });
+    } else {
+      diff.added.push(entry(row));
+    }
+  });
+
+  before.forEach((row, id) => {
+    if (!after.has(id) && !keysAfter.has(row.instrument_key)) diff.delisted.push(entry(row));
+  });
+
+  return diff;
+}
+
+export function summarizeDiff(diff: InstrumentDiff): DiffSummary {
+  return {
+    added: diff.added.length,
+    delisted: diff.delisted.length,
+    keyChanged: diff.keyChanged.length,
+    renamed: diff.renamed.length
+  };
+}
+
+export async function readManifest(): Promise<InstrumentManifest> {
+  try {
+    return JSON.parse(await fs.readFile(MANIFEST_FILE, 'utf-8'));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') console.warn('Ignoring unreadable instrument manifest:', error.message);
+    return { current: null, snapshots: [] };
+  }
+}
+
+export async function readDiff(version: string): Promise<InstrumentDiff | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(DIFF_DIR, `${version}.json`), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+async function readLiveRows(): Promise<MasterInstrument[] | null> {
+  try {
+    const rows = JSON.parse(await fs.readFile(INSTRUMENTS_FILE, 'utf-8'));
+    return Array.isArray(rows) ? rows : null;
+  } catch {
+    return null;
+  }
+}
+
+// Temp file + rename so readers never see a half-written file
+async function writeAtomic(file: string, data: string | Buffer) {
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(tmpFile, data);
+  await fs.rename(tmpFile, file);
+}
+
+function newVersion(sha256: string): string {
+  // e.g. 20241031T021500Z-3fa9c2d1
+  return `${new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')}-${sha256.slice(0, 8)}`;
+}
+
+let ingestQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Validate, snapshot, diff and activate one instrument file.
+ * Runs one at a time. With `force`, a suspiciously large delisting count is accepted.
+ */
+export function ingestInstrumentFile(source: IngestSource, options: { force?: boolean } = {}): Promise<IngestResult> {
+  const run = ingestQueue.catch(() => undefined).then(() => ingest(source, options));
+  ingestQueue = run;
+  return run;
+}
+
+async function ingest(source: IngestSource, { force = false }: { force?: boolean }): Promise<IngestResult> {
+  const { buffer, label } = await readSource(source);
+  const rows = validateInstrumentRows(decode(buffer));
+  const body = JSON.stringify(rows);
+  const sha256 = crypto.createHash('sha256').update(body).digest('hex');
+
+  const manifest = await readManifest();
+  const current = manifest.snapshots.find(s => s.version === manifest.current);
+  if (current && current.sha256 === sha256) {
+    console.log(`✓ [instruments] ${label} is identical to ${current.version}`);
+    return { unchanged: true, snapshot: current, diff: null };
+  }
+
+  const version = newVersion(sha256);
+  const previous = await readLiveRows();
+  const diff = previous ? diffInstruments(previous, rows, manifest.current, version) : null;
+
+  if (diff && !force) {
+    const previousCount = previous!.filter(r => isDiffedSegment(r.segment)).length;
+    if (previousCount > 0 && diff.delisted.length / previousCount > MAX_DELISTED_RATIO) {
+      throw new InstrumentFileError([
+        `${diff.delisted.length} of ${previousCount} symbols would be delisted - rerun with force if this is expected`
+      ]);
+    }
+  }
+
+  const snapshot: SnapshotInfo = {
+    version,
+    createdAt: new Date().toISOString(),
+    source: label,
+    sha256,
+    rows: rows.length,
+    segments: segmentCounts(rows),
+    diff: diff ? summarizeDiff(diff) : null
+  };
+
+  await writeAtomic(path.join(SNAPSHOT_DIR, `${version}.json.gz`), zlib.gzipSync(body));
+  if (diff) await writeAtomic(path.join(DIFF_DIR, `${version}.json`), JSON.stringify(diff));
+  await writeAtomic(INSTRUMENTS_FILE, body);
+
+  const snapshots = [snapshot, ...manifest.snapshots];
+  for (const old of snapshots.slice(KEEP_SNAPSHOTS)) {
+    await fs.rm(path.join(SNAPSHOT_DIR, `${old.version}.json.gz`), { force: true });
+  }
+  await writeAtomic(MANIFEST_FILE, JSON.stringify({ current: version, snapshots: snapshots.slice(0, KEEP_SNAPSHOTS) }, null, 2));
+
+  invalidateInstrumentMaster();
+
+  console.log(`✓ [instruments] ${version}: ${rows.length} rows from ${label}` +
+    (diff ? ` (+${diff.added.length} -${diff.delisted.length} ~${diff.keyChanged.length} key, ${diff.renamed.length} renamed)` : ''));
+
+  return { unchanged: false, snapshot, diff };
+}
+
+/**
+ * Resolve a file name inside INCOMING_DIR, refusing anything that escapes it
+ */
+export function incomingFile(name: string): string {
+  const filePath = path.resolve(INCOMING_DIR, name);
+  if (path.dirname(filePath) !== path.resolve(INCOMING_DIR)) {
+    throw new InstrumentFileError([`${name} is not a file in ${INCOMING_DIR}`]);
+  }
+  return filePath;
+}
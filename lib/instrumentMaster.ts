@@ -0,0 +1,258 @@
+import fs from 'fs';
+import path from 'path';
+import { COMPANY_FULL_NAMES, INSTRUMENTS } from './constants';
+import { recordInstrumentMasterLoad } from './metrics';
+
+/**
+ * The Upstox instrument master (public/instruments.json), indexed by segment.
+ * Every segment in the file is kept - NSE_EQ, BSE_EQ, NSE_INDEX, BSE_INDEX,
+ * NSE_FO, MCX_FO, ... - keyed by upper-cased trading symbol, so lookups can be
+ * narrowed by exchange, segment and instrument type.
+ * The file is replaced by the ingestion pipeline (lib/instrumentIngest.ts) and
+ * re-read whenever its modification time changes.
+ */
+
+export const INSTRUMENTS_FILE = process.env.INSTRUMENTS_FILE || path.join(process.cwd(), 'public', 'instruments.json');
+// How often the file's mtime is checked for a newer copy
+const STAT_INTERVAL_MS = 60000;
+
+/**
+ * One row of the Upstox instrument file (fields we keep; others are dropped)
+ */
+export interface MasterInstrument {
+  instrument_key: string;
+  trading_symbol: string;
+  segment: string; // NSE_EQ, BSE_INDEX, NSE_FO, MCX_FO, ...
+  exchange?: string; // NSE, BSE, MCX
+  instrument_type?: string; // EQ, INDEX, FUT, CE, PE, ...
+  name?: string;
+  isin?: string;
+  lot_size?: number;
+  tick_size?: number;
+  expiry?: number | string;
+  strike_price?: number;
+  underlying_key?: string;
+}
+
+/**
+ * An instrument as the API routes and the browser client see it
+ */
+export interface Instrument {
+  instrumentKey: string;
+  symbol: string; // trading symbol
+  name: string | null; // company / contract name, e.g. RELIANCE INDUSTRIES LIMITED
+  segment: string;
+  exchange: string;
+  instrumentType: string | null;
+  isin: string | null;
+  lotSize: number | null;
+  tickSize: number | null; // as published by Upstox (paise)
+  expiry: string | null; // YYYY-MM-DD, derivatives only
+  strikePrice: number | null; // options only
+  underlyingKey: string | null;
+}
+
+export interface InstrumentFilter {
+  exchange?: string;
+  segment?: string;
+  instrumentType?: string;
+}
+
+export interface InstrumentMaster {
+  source: 'local_file' | 'fallback';
+  loadedAt: number;
+  fileUpdatedAt: number | null; // mtime of the file it was read from
+  error?: string;
+  count: number;
+  segments: Map<string, Map<string, MasterInstrument>>; // segment -> SYMBOL -> row
+}
+
+const KEPT_FIELDS: (keyof MasterInstrument)[] = [
+  'instrument_key', 'trading_symbol', 'segment', 'exchange', 'instrument_type', 'name',
+  'isin', 'lot_size', 'tick_size', 'expiry', 'strike_price', 'underlying_key'
+];
+
+let master: InstrumentMaster | null = null;
+let lastStatAt = 0;
+
+function indexRows(rows: MasterInstrument[], source: InstrumentMaster['source'], error?: string): InstrumentMaster {
+  const segments = new Map<string, Map<string, MasterInstrument>>();
+  let count = 0;
+
+  for (const row of rows) {
+    if (!row?.segment || !row.trading_symbol || !row.instrument_key) continue;
+
+    const compact = {} as MasterInstrument;
+    for (const field of KEPT_FIELDS) {
+      if (row[field] !== undefined && row[field] !== null) (compact as any)[field] = row[field];
+    }
+
+    let bySymbol = segments.get(row.segment);
+    if (!bySymbol) {
+      bySymbol = new Map();
+      segments.set(row.segment, bySymbol);
+    }
+
+    // First row wins if a symbol repeats within a segment
+    const symbol = row.trading_symbol.toUpperCase();
+    if (!bySymbol.has(symbol)) {
+      bySymbol.set(symbol, compact);
+      count++;
+    }
+  }
+
+  return { source, loadedAt: Date.now(), fileUpdatedAt: null, error, count, segments };
+}
+
+/**
+ * The static NSE_EQ/BSE_EQ tables from constants, for when the file is missing
+ */
+function fallbackRows(): MasterInstrument[] {
+  return Object.entries(INSTRUMENTS).flatMap(([segment, symbols]) =>
+    Object.entries(symbols as Record<string, string>).map(([symbol, key]) => ({
+      instrument_key: key,
+      trading_symbol: symbol,
+      segment,
+      exchange: segment.split('_')[0],
+      instrument_type: 'EQ',
+      isin: key.split('|')[1],
+      ...(COMPANY_FULL_NAMES[symbol] ? { name: COMPANY_FULL_NAMES[symbol] } : {})
+    }))
+  );
+}
+
+function loadMaster(): InstrumentMaster {
+  try {
+    if (!fs.existsSync(INSTRUMENTS_FILE)) {
+      throw new Error(`${path.basename(INSTRUMENTS_FILE)} not found`);
+    }
+
+    const { mtimeMs } = fs.statSync(INSTRUMENTS_FILE);
+    const rows = JSON.parse(fs.readFileSync(INSTRUMENTS_FILE, 'utf-8'));
+    if (!Array.isArray(rows)) throw new Error('instrument file is not a JSON array');
+
+    const loaded = { ...indexRows(rows, 'local_file'), fileUpdatedAt: mtimeMs };
+    console.log(`✓ Loaded ${loaded.count} instruments across ${loaded.segments.size} segments`);
+    return loaded;
+  } catch (error: any) {
+    console.error('Failed to load instruments:', error.message);
+    return indexRows(fallbackRows(), 'fallback', error.message);
+  }
+}
+
+function fileChanged(current: InstrumentMaster): boolean {
+  if (Date.now() - lastStatAt < STAT_INTERVAL_MS) return false;
+  lastStatAt = Date.now();
+
+  try {
+    return fs.statSync(INSTRUMENTS_FILE).mtimeMs !== current.fileUpdatedAt;
+  } catch {
+    // Still missing - keep serving the fallback; vanished - keep the last good copy
+    return false;
+  }
+}
+
+const IST_OFFSET_MS = 5.5 * 3600000;
+
+// Upstox publishes expiry as epoch ms (end of the IST trading day); older files use dates
+function expiryDate(expiry: MasterInstrument['expiry']): string | null {
+  if (expiry === undefined || expiry === null || expiry === '') return null;
+  if (typeof expiry === 'string' && !/^\d+$/.test(expiry)) return expiry.slice(0, 10);
+  return new Date(Number(expiry) + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+export function toInstrument(row: MasterInstrument): Instrument {
+  return {
+    instrumentKey: row.instrument_key,
+    symbol: row.trading_symbol,
+    name: row.name || null,
+    segment: row.segment,
+    exchange: row.exchange || row.segment.split('_')[0],
+    instrumentType: row.instrument_type || null,
+    isin: row.isin || null,
+    lotSize: row.lot_size ?? null,
+    tickSize: row.tick_size ?? null,
+    expiry: expiryDate(row.expiry),
+    strikePrice: row.strike_price || null,
+    underlyingKey: row.underlying_key || null
+  };
+}
+
+/**
+ * The indexed master, re-read when the file on disk has been replaced
+ */
+export function getInstrumentMaster(): InstrumentMaster {
+  if (!master || fileChanged(master)) {
+    master = loadMaster();
+    lastStatAt = Date.now();
+    recordInstrumentMasterLoad({
+      source: master.source,
+      count: master.count,
+      loadedAt: master.loadedAt,
+      ...(master.fileUpdatedAt ? { updatedAt: master.fileUpdatedAt } : {}),
+      ...(master.error ? { error: master.error } : {})
+    });
+  }
+  return master;
+}
+
+/**
+ * Drop the in-memory index so the next lookup re-reads the file (after an ingestion)
+ */
+export function invalidateInstrumentMaster() {
+  master = null;
+}
+
+/**
+ * Segments a filter covers. An explicit segment wins; an exchange alone means its
+ * cash segment (NSE -> NSE_EQ); an exchange plus a type covers every segment of
+ * that exchange (NSE + INDEX -> NSE_INDEX).
+ */
+export function segmentsFor(filter: InstrumentFilter, instrumentMaster = getInstrumentMaster()): string[] {
+  if (filter.segment) return [filter.segment];
+
+  const all = Array.from(instrumentMaster.segments.keys());
+  if (filter.exchange && filter.instrumentType) return all.filter(s => s.startsWith(`${filter.exchange}_`));
+  if (filter.exchange) return [`${filter.exchange}_EQ`];
+  return all;
+}
+
+/**
+ * Every instrument matching the filter
+ */
+export function filterInstruments(filter: InstrumentFilter): MasterInstrument[] {
+  const instrumentMaster = getInstrumentMaster();
+  const rows: MasterInstrument[] = [];
+
+  for (const segment of segmentsFor(filter, instrumentMaster)) {
+    instrumentMaster.segments.get(segment)?.forEach(row => {
+      if (!filter.instrumentType || row.instrument_type === filter.instrumentType) rows.push(row);
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Look up one trading symbol (case-insensitive) within the filter's segments
+ */
+export function findInstrument(symbol: string, filter: InstrumentFilter): MasterInstrument | null {
+  const instrumentMaster = getInstrumentMaster();
+  const key = symbol.trim().toUpperCase();
+
+  for (const segment of segmentsFor(filter, instrumentMaster)) {
+    const row = instrumentMaster.segments.get(segment)?.get(key);
+    if (row && (!filter.instrumentType || row.instrument_type === filter.instrumentType)) return row;
+  }
+
+  return null;
+}
+
+/**
+ * Instrument count per segment, e.g. { NSE_EQ: 2400, NSE_INDEX: 120 }
+ */
+export function segmentCounts(): Record<string, number> {
+  const counts: Record<string, number> = {};
+  getInstrumentMaster().segments.forEach((rows, segment) => { counts[segment] = rows.size; });
+  return counts;
+}
@@ -0,0 +1,197 @@
+import { isSignificantWord, normalizeCompanyName } from './companyNames';
+import { Instrument, InstrumentFilter, InstrumentMaster, MasterInstrument, getInstrumentMaster, toInstrument } from './instrumentMaster';
+
+/**
+ * Ranked instrument search over the master's trading symbols and company names.
+ * Exact symbols rank first, then symbol prefixes, company-name matches, substrings
+ * and finally typo-tolerant (edit distance) symbol matches. Derivative segments are
+ * only searched when asked for by segment or instrument type - they'd bury the
+ * equities under thousands of contracts.
+ */
+
+export type SearchMatch = 'exact' | 'prefix' | 'name' | 'contains' | 'fuzzy';
+
+export interface InstrumentSearchResult extends Instrument {
+  match: SearchMatch;
+  score: number;
+}
+
+interface SearchEntry {
+  row: MasterInstrument;
+  symbol: string; // upper-cased
+  compactSymbol: string; // upper-cased, letters and digits only
+  name: string; // normalizeCompanyName - "&" as "and", no punctuation or "Ltd"
+  nameWords: string[];
+}
+
+// Segment order breaks score ties - cash market before indices before the rest
+const SEGMENT_PRIORITY = ['NSE_EQ', 'BSE_EQ', 'NSE_INDEX', 'BSE_INDEX'];
+// Typos tolerated: one for short queries, two from this length up
+const TWO_TYPO_LENGTH = 6;
+const MIN_FUZZY_LENGTH = 3;
+
+const isDerivativeSegment = (segment: string) => segment.endsWith('_FO');
+
+const compact = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Built once per loaded master; a reload yields a new master object
+const indexes = new WeakMap<InstrumentMaster, Map<string, SearchEntry[]>>();
+
+function searchIndex(master: InstrumentMaster): Map<string, SearchEntry[]> {
+  let index = indexes.get(master);
+  if (index) return index;
+
+  index = new Map();
+  master.segments.forEach((rows, segment) => {
+    const entries: SearchEntry[] = [];
+    rows.forEach(row => {
+      const name = normalizeCompanyName(row.name || '');
+      entries.push({
+        row,
+        symbol: row.trading_symbol.toUpperCase(),
+        compactSymbol: compact(row.trading_symbol),
+        name,
+        nameWords: name ? name.split(' ') : []
+      });
+    });
+    index!.set(segment, entries);
+  });
+
+  indexes.set(master, index);
+  return index;
+}
+
+/**
+ * Optimal string alignment distance (adjacent swaps count as one edit), giving up
+ * once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+function scoreEntry(
+  entry: SearchEntry,
+  query: { symbol: string; compact: string; name: string; maxTypos: number }
+): { match: SearchMatch; score: number } | null {
+  const { symbol, compactSymbol, name, nameWords } = entry;
+
+  if (symbol === query.symbol || (query.compact && compactSymbol === query.compact)) {
+    return { match: 'exact', score: 100 };
+  }
+
+  // Shorter symbols first: "TATA" should offer TATAPOWER before TATAMTRDVR
+  if (symbol.startsWith(query.symbol) || (query.compact && compactSymbol.startsWith(query.compact))) {
+    return { match: 'prefix', score: 90 - Math.min(symbol.length - query.symbol.length, 10) };
+  }
+
+  if (query.name && name) {
+    if (name.startsWith(query.name)) return { match: 'name', score: 75 };
+    // Every query word starts some word of the name: "tata steel" -> TATA STEEL LIMITED.
+    // Single letters and "and" ("m and m" from M&M) would match nearly every name.
+    const queryWords = query.name.split(' ').filter(isSignificantWord);
+    if (queryWords.length > 0 && queryWords.every(word => nameWords.some(w => w.startsWith(word)))) {
+      return { match: 'name', score: 65 };
+    }
+  }
+
+  if (query.compact.length >= 2 && compactSymbol.includes(query.compact)) {
+    return { match: 'contains', score: 50 };
+  }
+  if (query.name.length >= 3 && name.includes(query.name)) {
+    return { match: 'contains', score: 45 };
+  }
+
+  if (query.maxTypos > 0) {
+    // Against the whole symbol and against a prefix of the typed length (typo while still typing)
+    const distance = Math.min(
+      editDistance(query.compact, compactSymbol, query.maxTypos),
+      editDistance(query.compact, compactSymbol.slice(0, query.compact.length), query.maxTypos)
+    );
+    const wordDistance = query.name.includes(' ')
+      ? query.maxTypos + 1
+      : Math.min(query.maxTypos + 1, ...nameWords.map(w => editDistance(query.name, w, query.maxTypos)));
+    const best = Math.min(distance, wordDistance);
+    if (best <= query.maxTypos) return { match: 'fuzzy', score: 30 - best * 10 };
+  }
+
+  return null;
+}
+
+function segmentRank(segment: string): number {
+  const rank = SEGMENT_PRIORITY.indexOf(segment);
+  return rank === -1 ? SEGMENT_PRIORITY.length : rank;
+}
+
+/**
+ * Segments searched for a filter: an explicit segment, else every segment of the
+ * exchange (or of all exchanges), with derivatives only when a type is given
+ */
+function searchSegments(filter: InstrumentFilter, master: InstrumentMaster): string[] {
+  if (filter.segment) return [filter.segment];
+
+  return Array.from(master.segments.keys()).filter(segment =>
+    (!filter.exchange || segment.startsWith(`${filter.exchange}_`)) &&
+    (filter.instrumentType || !isDerivativeSegment(segment))
+  );
+}
+
+/**
+ * The best `limit` instruments for a free-text query (symbol or company name)
+ */
+export function searchInstruments(text: string, filter: InstrumentFilter = {}, limit = 10): InstrumentSearchResult[] {
+  const master = getInstrumentMaster();
+  const index = searchIndex(master);
+
+  const query = {
+    symbol: text.trim().toUpperCase(),
+    compact: compact(text),
+    name: normalizeCompanyName(text),
+    maxTypos: 0
+  };
+  if (!query.symbol) return [];
+  if (query.compact.length >= MIN_FUZZY_LENGTH) {
+    query.maxTypos = query.compact.length >= TWO_TYPO_LENGTH ? 2 : 1;
+  }
+
+  const scored: { entry: SearchEntry; match: SearchMatch; score: number }[] = [];
+  for (const segment of searchSegments(filter, master)) {
+    for (const entry of index.get(segment) || []) {
+      if (filter.instrumentType && entry.row.instrument_type !== filter.instrumentType) continue;
+      const result = scoreEntry(entry, query);
+      if (result) scored.push({ entry, ...result });
+    }
+  }
+
+  scored.sort((a, b) =>
+    b.score - a.score ||
+    segmentRank(a.entry.row.segment) - segmentRank(b.entry.row.segment) ||
+    a.entry.symbol.length - b.entry.symbol.length ||
+    a.entry.symbol.localeCompare(b.entry.symbol)
+  );
+
+  return scored.slice(0, limit).map(({ entry, match, score }) => ({ ...toInstrument(entry.row), match, score }));
+}
@@ -0,0 +1,142 @@
+import { Candle, addDays, candleDate, mergeCandles, settledUntil, todayIST } from './candleCache';
+import { HistoricalCandleRequest, HistoricalCandleResult, getHistoricalCandles } from './historicalCandles';
+import { upstoxRequest } from './upstoxClient';
+
+/**
+ * Current-session candles from the V3 intraday candle API.
+ * Historical candles stop at the previous trading day; these fill in today.
+ * They are provisional - the last bar is still forming - and are never cached.
+ */
+
+export interface IntradayCandleRequest {
+  accessToken: string;
+  instrumentKey: string;
+  unit: string; // minutes | hours | days
+  interval: string;
+}
+
+/**
+ * Today's candles, newest first like Upstox
+ */
+export async function fetchIntradayCandles(request: IntradayCandleRequest): Promise<Candle[]> {
+  const { accessToken, instrumentKey, unit, interval } = request;
+
+  const response = await upstoxRequest({
+    endpoint: 'intraday',
+    path: `/v3/historical-candle/intraday/${encodeURIComponent(instrumentKey)}/${unit}/${interval}`,
+    accessToken
+  });
+
+  return response.data?.data?.candles || [];
+}
+
+/**
+ * Start date of the weekly/monthly bar that contains today
+ */
+function periodStart(unit: string, today: string): string {
+  return unit === 'months' ? `${today.slice(0, 7)}-01` : addDays(settledUntil('weeks', today), 1);
+}
+
+/**
+ * Fold today's daily candle into the week/month bar it belongs to
+ */
+function foldIntoPeriod(existing: Candle | undefined, day: Candle, start: string): Candle {
+  if (!existing) {
+    return [`${start}T00:00:00+05:30`, day[1], day[2], day[3], day[4], day[5], day[6]];
+  }
+
+  return [
+    existing[0],
+    existing[1],
+    Math.max(existing[2], day[2]),
+    Math.min(existing[3], day[3]),
+    day[4],
+    existing[5] + day[5],
+    day[6] ?? existing[6]
+  ];
+}
+
+/**
+ * Append the still-forming current-session candle(s) to historical candles.
+ * Minute/hour units get today's bars at the same interval; day, week and month
+ * units get a single provisional bar for the period containing today.
+ *
+ * @param candles Historical candles, newest first
+ * @returns Candles newest first, plus how many of the newest are provisional
+ */
+export async function appendCurrentSession(
+  candles: Candle[],
+  request: IntradayCandleRequest
+): Promise<{ candles: Candle[]; provisional: number; date: string }> {
+  const { unit, interval } = request;
+  const today = todayIST();
+  const intraday = unit === 'minutes' || unit === 'hours';
+
+  const current = await fetchIntradayCandles(
+    intraday ? request : { ...request, unit: 'days', interval: '1' }
+  );
+  const todays = current.filter(c => candleDate(c) === today);
+
+  if (todays.length === 0) {
+    return { candles, provisional: 0, date: today };
+  }
+
+  const ascending = [...candles].reverse();
+
+  if (unit === 'weeks' || unit === 'months') {
+    const start = periodStart(unit, today);
+    const existing = ascending.find(c => candleDate(c) === start);
+    const folded = foldIntoPeriod(existing, todays[0], start);
+    return { candles: mergeCandles(ascending, [folded]).reverse(), provisional: 1, date: today };
+  }
+
+  return { candles: mergeCandles(ascending, todays).reverse(), provisional: todays.length, date: today };
+}
+
+export interface CandleMeta {
+  cache: HistoricalCandleResult['cache'];
+  chunks: HistoricalCandleResult['chunks'];
+  partial: boolean;
+  provisional?: { date: string; candles: number; error?: string };
+}
+
+/**
+ * Historical candles (cached) plus, with includeToday, the current session's
+ * provisional candle(s) when the range covers today.
+ * A failed intraday call only drops today's bar; a 401 still propagates.
+ */
+export async function getCandlesWithToday(
+  request: HistoricalCandleRequest,
+  includeToday: boolean
+): Promise<{ candles: Candle[]; meta: CandleMeta }> {
+  const result = await getHistoricalCandles(request);
+  let candles = result.candles;
+  let provisional: CandleMeta['provisional'];
+
+  const today = todayIST();
+  if (includeToday && request.fromDate <= today && request.toDate >= today) {
+    try {
+      const current = await appendCurrentSession(candles, request);
+      candles = current.candles;
+      provisional = { date: current.date, candles: current.provisional };
+    } catch (error: any) {
+      if (error.response?.status === 401) throw error;
+      // Historical data is still useful without today's bar
+      provisional = {
+        date: today,
+        candles: 0,
+        error: error.response?.data?.errors?.[0]?.message || error.message
+      };
+    }
+  }
+
+  return {
+    candles,
+    meta: {
+      cache: result.cache,
+      chunks: result.chunks,
+      partial: result.partial,
+      ...(provisional ? { provisional } : {})
+    }
+  };
+}
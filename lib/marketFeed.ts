@@ -0,0 +1,344 @@
+import crypto from 'crypto';
+import path from 'path';
+import protobuf from 'protobufjs';
+import WebSocket from 'ws';
+import { ApiErrorCode } from './apiErrors';
+import { UpstoxProfile } from './session';
+import { upstoxRequest } from './upstoxClient';
+
+/**
+ * Server-side relay for the Upstox V3 market data WebSocket feed.
+ *
+ * One upstream socket per profile is shared by every browser tab streaming
+ * through /api/stream: instrument subscriptions are reference-counted, so the
+ * feed is subscribed when the first tab asks for a key and unsubscribed when
+ * the last one leaves. Dropped sockets are re-authorized and re-subscribed
+ * with exponential backoff.
+ */
+
+export type FeedMode = 'ltpc' | 'full';
+export type FeedStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface LiveTick {
+  instrumentKey: string;
+  ltp: number;
+  ltt: number; // last trade time, epoch ms
+  ltq: number;
+  cp: number; // previous close
+  change: number;
+  changePercent: number;
+  // Full mode only
+  ohlc?: { open: number; high: number; low: number; close: number; volume: number };
+  volume?: number;
+  oi?: number;
+}
+
+export interface FeedListener {
+  onTick: (tick: LiveTick) => void;
+  onStatus: (status: FeedStatus, detail?: { attempt?: number; retryInMs?: number }) => void;
+  // Fatal - the relay has given up (e.g. the token was rejected)
+  onError: (code: ApiErrorCode, message: string) => void;
+}
+
+interface Subscription {
+  keys: Set<string>;
+  mode: FeedMode;
+  listener: FeedListener;
+}
+
+const PROTO_FILE = path.join(process.cwd(), 'lib', 'proto', 'MarketDataFeedV3.proto');
+const FEED_RESPONSE_TYPE = 'com.upstox.marketdatafeederv3udapi.rpc.proto.FeedResponse';
+
+const BASE_RECONNECT_MS = 1000;
+const MAX_RECONNECT_MS = 30000;
+// Keep the socket briefly after the last tab leaves so reloads don't churn it
+const IDLE_CLOSE_MS = 30000;
+
+let feedResponseType: protobuf.Type | null = null;
+
+function getFeedResponseType(): protobuf.Type {
+  if (!feedResponseType) {
+    feedResponseType = protobuf.loadSync(PROTO_FILE).lookupType(FEED_RESPONSE_TYPE);
+  }
+  return feedResponseType;
+}
+
+/**
+ * Decode one binary feed message into ticks
+ */
+export function decodeFeedMessage(buffer: Uint8Array): LiveTick[] {
+  const type = getFeedResponseType();
+  const message: any = type.toObject(type.decode(buffer), { longs: Number, enums: String, defaults: true });
+  const ticks: LiveTick[] = [];
+
+  for (const [instrumentKey, feed] of Object.entries<any>(message.feeds || {})) {
+    const full = feed.fullFeed?.marketFF || feed.fullFeed?.indexFF;
+    const ltpc = feed.ltpc || full?.ltpc || feed.firstLevelWithGreeks?.ltpc;
+    if (!ltpc) continue;
+
+    const tick: LiveTick = {
+      instrumentKey,
+      ltp: ltpc.ltp,
+      ltt: ltpc.ltt,
+      ltq: ltpc.ltq,
+      cp: ltpc.cp,
+      change: +(ltpc.ltp - ltpc.cp).toFixed(2),
+      changePercent: ltpc.cp ? +(((ltpc.ltp - ltpc.cp) / ltpc.cp) * 100).toFixed(2) : 0
+    };
+
+    const daily = full?.marketOHLC?.ohlc?.find((o: any) => o.interval === '1d');
+    if (daily) {
+      tick.ohlc = { open: daily.open, high: daily.high, low: daily.low, close: daily.close, volume: daily.vol };
+    }
+    if (feed.fullFeed?.marketFF) {
+      tick.volume = feed.fullFeed.marketFF.vtt;
+      tick.oi = feed.fullFeed.marketFF.oi;
+    }
+
+    ticks.push(tick);
+  }
+
+  return ticks;
+}
+
+class MarketFeedRelay {
+  private subscriptions = new Set<Subscription>();
+  private upstream = new Map<string, FeedMode>(); // what the socket is subscribed to
+  private lastTicks = new Map<string, LiveTick>();
+  private socket: WebSocket | null = null;
+  private status: FeedStatus = 'closed';
+  private attempt = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private authorizing = false;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(readonly profileId: string, readonly accessToken: string, private onStop: () => void) {}
+
+  add(subscription: Subscription): () => void {
+    this.subscriptions.add(subscription);
+
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    if (!this.socket && !this.reconnectTimer && !this.authorizing) {
+      this.connect();
+    } else {
+      subscription.listener.onStatus(this.status);
+      // New tabs get the latest known price straight away
+      subscription.keys.forEach(key => {
+        const tick = this.lastTicks.get(key);
+        if (tick) subscription.listener.onTick(tick);
+      });
+      this.sync();
+    }
+
+    return () => {
+      // Already torn down - stop() dropped every subscription
+      if (this.stopped) return;
+      this.subscriptions.delete(subscription);
+      this.sync();
+      if (this.subscriptions.size === 0) {
+        this.idleTimer = setTimeout(() => this.stop(), IDLE_CLOSE_MS);
+      }
+    };
+  }
+
+  /**
+   * Union of what every tab wants; full mode wins over ltpc for shared keys
+   */
+  private wanted(): Map<string, FeedMode> {
+    const wanted = new Map<string, FeedMode>();
+    this.subscriptions.forEach(({ keys, mode }) => {
+      keys.forEach(key => {
+        if (mode === 'full' || !wanted.has(key)) wanted.set(key, mode);
+      });
+    });
+    return wanted;
+  }
+
+  /**
+   * Bring the upstream subscriptions in line with what the tabs want
+   */
+  private sync() {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return;
+
+    const wanted = this.wanted();
+    const toAdd: Record<FeedMode, string[]> = { ltpc: [], full: [] };
+    const toRemove: string[] = [];
+
+    wanted.forEach((mode, key) => {
+      const current = this.upstream.get(key);
+      // Downgrading full -> ltpc isn't worth a round trip
+      if (!current || (current === 'ltpc' && mode === 'full')) toAdd[mode].push(key);
+    });
+    this.upstream.forEach((_, key) => {
+      if (!wanted.has(key)) toRemove.push(key);
+    });
+
+    if (toRemove.length) {
+      this.send('unsub', { instrumentKeys: toRemove });
+      toRemove.forEach(key => {
+        this.upstream.delete(key);
+        this.lastTicks.delete(key);
+      });
+    }
+
+    for (const mode of ['ltpc', 'full'] as FeedMode[]) {
+      if (toAdd[mode].length === 0) continue;
+      this.send('sub', { mode, instrumentKeys: toAdd[mode] });
+      toAdd[mode].forEach(key => this.upstream.set(key, mode));
+    }
+  }
+
+  // Upstox expects JSON requests sent as binary frames
+  private send(method: 'sub' | 'unsub', data: Record<string, unknown>) {
+    const request = { guid: crypto.randomUUID(), method, data };
+    this.socket?.send(Buffer.from(JSON.stringify(request)));
+  }
+
+  private setStatus(status: FeedStatus, detail?: { attempt?: number; retryInMs?: number }) {
+    this.status = status;
+    this.subscriptions.forEach(s => s.listener.onStatus(status, detail));
+  }
+
+  private async connect() {
+    this.reconnectTimer = null;
+    if (this.stopped) return;
+
+    this.setStatus(this.attempt === 0 ? 'connecting' : 'reconnecting', { attempt: this.attempt });
+
+    let socketUrl: string;
+    this.authorizing = true;
+    try {
+      // The authorized URI is single-use, so every (re)connect authorizes again
+      const response = await upstoxRequest({
+        endpoint: 'feed',
+        path: '/v3/feed/market-data-feed/authorize',
+        accessToken: this.accessToken
+      });
+      socketUrl = response.data?.data?.authorized_redirect_uri || response.data?.data?.authorizedRedirectUri;
+      if (!socketUrl) throw new Error('Feed authorization returned no socket URL');
+    } catch (error: any) {
+      if (error.response?.status === 401) {
+        this.fail('SESSION_EXPIRED', 'Upstox session expired. Please login again.');
+        return;
+      }
+      console.error(`✗ [feed] authorize failed for ${this.profileId}: ${error.message}`);
+      this.scheduleReconnect();
+      return;
+    } finally {
+      this.authorizing = false;
+    }
+
+    if (this.stopped) return;
+
+    const socket = new WebSocket(socketUrl, { followRedirects: true });
+    this.socket = socket;
+
+    socket.on('open', () => {
+      console.log(`✓ [feed] connected for ${this.profileId}`);
+      this.attempt = 0;
+      this.upstream.clear();
+      this.setStatus('open');
+      this.sync();
+    });
+
+    socket.on('message', (data: WebSocket.RawData) => {
+      try {
+        const buffer = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+        for (const tick of decodeFeedMessage(buffer)) {
+          this.lastTicks.set(tick.instrumentKey, tick);
+          this.subscriptions.forEach(s => {
+            if (s.keys.has(tick.instrumentKey)) s.listener.onTick(tick);
+          });
+        }
+      } catch (error: any) {
+        console.warn(`[feed] undecodable message: ${error.message}`);
+      }
+    });
+
+    socket.on('error', (error) => {
+      console.error(`✗ [feed] socket error for ${this.profileId}: ${error.message}`);
+    });
+
+    socket.on('close', (code) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.upstream.clear();
+      console.warn(`↻ [feed] socket closed for ${this.profileId} (${code})`);
+
+      if (!this.stopped && this.subscriptions.size > 0) {
+        this.scheduleReconnect();
+      } else {
+        this.setStatus('closed');
+      }
+    });
+  }
+
+  private scheduleReconnect() {
+    if (this.stopped || this.reconnectTimer) return;
+
+    const backoff = Math.min(MAX_RECONNECT_MS, BASE_RECONNECT_MS * 2 ** this.attempt);
+    const delay = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+    this.attempt++;
+
+    this.setStatus('reconnecting', { attempt: this.attempt, retryInMs: delay });
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private fail(code: ApiErrorCode, message: string) {
+    this.subscriptions.forEach(s => s.listener.onError(code, message));
+    this.stop();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.reconnectTimer = null;
+    this.idleTimer = null;
+    this.socket?.close();
+    this.socket = null;
+
+    // Detach before notifying: listeners unsubscribe when told the feed closed
+    const subscriptions = Array.from(this.subscriptions);
+    this.subscriptions.clear();
+    this.status = 'closed';
+    subscriptions.forEach(s => s.listener.onStatus('closed'));
+    this.onStop();
+  }
+}
+
+const relays = new Map<string, MarketFeedRelay>();
+
+/**
+ * Stream ticks for some instruments through the profile's shared feed connection.
+ * Returns an unsubscribe function.
+ */
+export function subscribeMarketFeed(
+  profile: UpstoxProfile,
+  instrumentKeys: string[],
+  mode: FeedMode,
+  listener: FeedListener
+): () => void {
+  let relay = relays.get(profile.id);
+
+  // Re-login issued a new token - the old socket belongs to the old one
+  if (relay && relay.accessToken !== profile.accessToken) {
+    relay.stop();
+    relay = undefined;
+  }
+
+  if (!relay) {
+    const created: MarketFeedRelay = new MarketFeedRelay(profile.id, profile.accessToken, () => {
+      if (relays.get(profile.id) === created) relays.delete(profile.id);
+    });
+    relays.set(profile.id, created);
+    relay = created;
+  }
+
+  return relay.add({ keys: new Set(instrumentKeys), mode, listener });
+}
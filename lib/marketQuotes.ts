@@ -0,0 +1,100 @@
+import { mapWithConcurrency } from './concurrency';
+import { upstoxRequest } from './upstoxClient';
+
+/**
+ * Market quotes for any number of instruments.
+ * Upstox caps each market-quote call at 500 instrument keys, so long lists
+ * are split into batches and the `data` maps merged back together.
+ */
+
+export type QuoteType = 'full' | 'ltp' | 'ohlc';
+
+// Per-call instrument limit of the V3 market-quote endpoints
+export const MAX_KEYS_PER_QUOTE_CALL = 500;
+// Batches fetched in parallel for one request
+const BATCH_CONCURRENCY = 2;
+
+// Upstox uses v3 for all market quote endpoints
+const QUOTE_PATHS: Record<QuoteType, string> = {
+  ltp: '/v3/market-quote/ltp',
+  ohlc: '/v3/market-quote/ohlc',
+  full: '/v3/market-quote/quotes'
+};
+
+export interface MarketQuoteRequest {
+  accessToken: string;
+  instrumentKeys: string[];
+  type: QuoteType;
+}
+
+export interface MarketQuoteResult {
+  data: Record<string, any>; // keyed like Upstox, e.g. NSE_EQ:RELIANCE
+  missing: string[]; // requested keys Upstox returned nothing for
+  batches: number;
+  failed: { instruments: string[]; error: string }[]; // batches that errored - not counted as missing
+}
+
+/**
+ * Parse a comma-separated list (or array) into unique, trimmed instrument keys
+ */
+export function parseInstrumentKeys(instruments: string | string[]): string[] {
+  const list = Array.isArray(instruments) ? instruments : instruments.split(',');
+  return Array.from(new Set(list.map(k => k.trim()).filter(Boolean)));
+}
+
+async function fetchQuoteBatch(request: MarketQuoteRequest, batch: string[]): Promise<Record<string, any>> {
+  // axios encodes the `|` and `,` in the keys
+  const response = await upstoxRequest({
+    endpoint: 'quotes',
+    path: QUOTE_PATHS[request.type],
+    params: { instrument_key: batch.join(',') },
+    accessToken: request.accessToken
+  });
+
+  return response.data?.data || {};
+}
+
+export async function getMarketQuotes(request: MarketQuoteRequest): Promise<MarketQuoteResult> {
+  const keys = request.instrumentKeys;
+  const batches: string[][] = [];
+  for (let i = 0; i < keys.length; i += MAX_KEYS_PER_QUOTE_CALL) {
+    batches.push(keys.slice(i, i + MAX_KEYS_PER_QUOTE_CALL));
+  }
+
+  const outcomes = await mapWithConcurrency(batches, BATCH_CONCURRENCY, async (batch) => {
+    try {
+      return { batch, data: await fetchQuoteBatch(request, batch), error: null };
+    } catch (error: any) {
+      return { batch, data: {}, error };
+    }
+  });
+
+  const failures = outcomes.filter(o => o.error);
+
+  // Dead token, or nothing came back at all - let the route map the upstream error
+  const authFailure = failures.find(o => o.error.response?.status === 401);
+  if (authFailure) throw authFailure.error;
+  if (batches.length > 0 && failures.length === batches.length) throw failures[0].error;
+
+  const data: Record<string, any> = {};
+  outcomes.forEach(o => Object.assign(data, o.data));
+
+  // Responses are keyed by trading symbol; instrument_token maps them back to the request
+  const resolved = new Set<string>();
+  for (const [responseKey, quote] of Object.entries(data)) {
+    resolved.add(responseKey.replace(':', '|'));
+    if (quote?.instrument_token) resolved.add(quote.instrument_token);
+  }
+
+  const failedKeys = new Set(failures.flatMap(f => f.batch));
+
+  return {
+    data,
+    missing: keys.filter(k => !resolved.has(k) && !failedKeys.has(k)),
+    batches: batches.length,
+    failed: failures.map(f => ({
+      instruments: f.batch,
+      error: f.error.response?.data?.errors?.[0]?.message || f.error.message
+    }))
+  };
+}
@@ -0,0 +1,253 @@
+import { RateWindow, UPSTOX_RATE_LIMITS, getRateLimitTotals } from './rateLimiter';
+
+/**
+ * In-process counters for the proxy layer, served by /api/metrics and /api/health.
+ * upstoxRequest records every upstream attempt; the candle cache and instrument
+ * master report their own state. Numbers reset when the server process restarts
+ * (and are per instance on serverless hosts).
+ */
+
+export type UpstreamOutcome = '2xx' | '401' | '429' | '4xx' | '5xx' | 'timeout' | 'network';
+export type CandleCacheResult = 'hit' | 'partial' | 'miss';
+
+const OUTCOMES: UpstreamOutcome[] = ['2xx', '401', '429', '4xx', '5xx', 'timeout', 'network'];
+const QUANTILES = [0.5, 0.95, 0.99];
+
+// Latency samples kept per endpoint for percentiles
+const LATENCY_WINDOW = 1000;
+// Recent attempts considered by the health check
+const HEALTH_WINDOW = 50;
+// Share of failed recent attempts (5xx, timeout, network) that marks upstream degraded
+const DEGRADED_FAILURE_RATIO = 0.5;
+
+interface EndpointStats {
+  calls: number;
+  retries: number;
+  outcomes: Record<UpstreamOutcome, number>;
+  latencySumMs: number;
+  latencies: number[]; // ring buffer, last LATENCY_WINDOW attempts
+  nextSample: number;
+}
+
+export interface EndpointMetrics {
+  endpoint: string;
+  calls: number;
+  retries: number;
+  outcomes: Record<UpstreamOutcome, number>;
+  latencyMs: { p50: number | null; p95: number | null; p99: number | null; mean: number | null };
+}
+
+export interface InstrumentMasterInfo {
+  source: string; // e.g. local_file, fallback
+  count: number;
+  loadedAt: number; // epoch ms
+  updatedAt?: number; // when the data itself was written (file mtime); age is measured from this
+  error?: string;
+}
+
+export interface MetricsSnapshot {
+  startedAt: string;
+  uptimeSeconds: number;
+  upstream: EndpointMetrics[];
+  candleCache: Record<CandleCacheResult, number> & { lookups: number; hitRatio: number | null };
+  instrumentMaster: (InstrumentMasterInfo & { ageSeconds: number }) | null;
+  rateLimiter: { tokens: number; queued: number; limits: RateWindow[] };
+}
+
+export interface HealthReport {
+  status: 'ok' | 'degraded';
+  uptimeSeconds: number;
+  upstream: {
+    status: 'ok' | 'degraded' | 'unknown';
+    recentCalls: number;
+    recentFailures: number;
+    lastSuccessAt: string | null;
+    lastFailure: { at: string; endpoint: string; outcome: UpstreamOutcome } | null;
+  };
+  instrumentMaster: { source: string; ageSeconds: number } | null;
+}
+
+const startedAt = Date.now();
+const endpoints = new Map<string, EndpointStats>();
+const candleCache: Record<CandleCacheResult, number> = { hit: 0, partial: 0, miss: 0 };
+const recent: { failed: boolean }[] = [];
+let lastSuccessAt: number | null = null;
+let lastFailure: { at: number; endpoint: string; outcome: UpstreamOutcome } | null = null;
+let instrumentMaster: InstrumentMasterInfo | null = null;
+
+/**
+ * Bucket a finished attempt by HTTP status, or by error code when there was no response
+ */
+export function classifyOutcome(status: number | undefined, errorCode?: string): UpstreamOutcome {
+  if (status === undefined) return errorCode === 'ECONNABORTED' ? 'timeout' : 'network';
+  if (status === 401) return '401';
+  if (status === 429) return '429';
+  if (status >= 500) return '5xx';
+  if (status >= 400) return '4xx';
+  return '2xx';
+}
+
+export function recordUpstreamCall(endpoint: string, outcome: UpstreamOutcome, latencyMs: number, retry: boolean) {
+  let stats = endpoints.get(endpoint);
+  if (!stats) {
+    stats = {
+      calls: 0,
+      retries: 0,
+      outcomes: Object.fromEntries(OUTCOMES.map(o => [o, 0])) as Record<UpstreamOutcome, number>,
+      latencySumMs: 0,
+      latencies: [],
+      nextSample: 0
+    };
+    endpoints.set(endpoint, stats);
+  }
+
+  stats.calls++;
+  if (retry) stats.retries++;
+  stats.outcomes[outcome]++;
+  stats.latencySumMs += latencyMs;
+  stats.latencies[stats.nextSample] = latencyMs;
+  stats.nextSample = (stats.nextSample + 1) % LATENCY_WINDOW;
+
+  // Client errors (bad key, dead token) say nothing about Upstox being up
+  const failed = outcome === '5xx' || outcome === 'timeout' || outcome === 'network';
+  recent.push({ failed });
+  if (recent.length > HEALTH_WINDOW) recent.shift();
+
+  if (outcome === '2xx') {
+    lastSuccessAt = Date.now();
+  } else {
+    lastFailure = { at: Date.now(), endpoint, outcome };
+  }
+}
+
+export function recordCandleCache(result: CandleCacheResult) {
+  candleCache[result]++;
+}
+
+export function recordInstrumentMasterLoad(info: InstrumentMasterInfo) {
+  instrumentMaster = info;
+}
+
+function instrumentMasterAge(info: InstrumentMasterInfo, now: number): number {
+  return Math.floor((now - (info.updatedAt ?? info.loadedAt)) / 1000);
+}
+
+function percentile(sorted: number[], q: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+export function getMetricsSnapshot(): MetricsSnapshot {
+  const now = Date.now();
+  const lookups = candleCache.hit + candleCache.partial + candleCache.miss;
+
+  const upstream = Array.from(endpoints.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([endpoint, stats]) => {
+      const sorted = [...stats.latencies].sort((a, b) => a - b);
+      return {
+        endpoint,
+        calls: stats.calls,
+        retries: stats.retries,
+        outcomes: { ...stats.outcomes },
+        latencyMs: {
+          p50: percentile(sorted, 0.5),
+          p95: percentile(sorted, 0.95),
+          p99: percentile(sorted, 0.99),
+          mean: stats.calls ? Math.round(stats.latencySumMs / stats.calls) : null
+        }
+      };
+    });
+
+  return {
+    startedAt: new Date(startedAt).toISOString(),
+    uptimeSeconds: Math.floor((now - startedAt) / 1000),
+    upstream,
+    candleCache: {
+      ...candleCache,
+      lookups,
+      hitRatio: lookups ? +(candleCache.hit / lookups).toFixed(3) : null
+    },
+    instrumentMaster: instrumentMaster
+      ? { ...instrumentMaster, ageSeconds: instrumentMasterAge(instrumentMaster, now) }
+      : null,
+    rateLimiter: { ...getRateLimitTotals(), limits: UPSTOX_RATE_LIMITS }
+  };
+}
+
+export function getHealthReport(): HealthReport {
+  const now = Date.now();
+  const recentFailures = recent.filter(r => r.failed).length;
+  const upstreamStatus = recent.length === 0
+    ? 'unknown'
+    : recentFailures / recent.length >= DEGRADED_FAILURE_RATIO ? 'degraded' : 'ok';
+
+  return {
+    status: upstreamStatus === 'degraded' ? 'degraded' : 'ok',
+    uptimeSeconds: Math.floor((now - startedAt) / 1000),
+    upstream: {
+      status: upstreamStatus,
+      recentCalls: recent.length,
+      recentFailures,
+      lastSuccessAt: lastSuccessAt ? new Date(lastSuccessAt).toISOString() : null,
+      lastFailure: lastFailure ? { ...lastFailure, at: new Date(lastFailure.at).toISOString() } : null
+    },
+    instrumentMaster: instrumentMaster
+      ? { source: instrumentMaster.source, ageSeconds: instrumentMasterAge(instrumentMaster, now) }
+      : null
+  };
+}
+
+/**
+ * Prometheus text exposition format (version 0.0.4)
+ */
+export function toPrometheus(snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  };
+
+  metric('upstox_proxy_uptime_seconds', 'gauge', 'Seconds since the proxy process started');
+  lines.push(`upstox_proxy_uptime_seconds ${snapshot.uptimeSeconds}`);
+
+  metric('upstox_proxy_upstream_requests_total', 'counter', 'Upstox API attempts by endpoint and outcome');
+  for (const e of snapshot.upstream) {
+    for (const outcome of OUTCOMES) {
+      lines.push(`upstox_proxy_upstream_requests_total{endpoint="${e.endpoint}",outcome="${outcome}"} ${e.outcomes[outcome]}`);
+    }
+  }
+
+  metric('upstox_proxy_upstream_retries_total', 'counter', 'Upstox API attempts that were retries');
+  for (const e of snapshot.upstream) {
+    lines.push(`upstox_proxy_upstream_retries_total{endpoint="${e.endpoint}"} ${e.retries}`);
+  }
+
+  metric('upstox_proxy_upstream_latency_ms', 'summary', `Upstox API latency over the last ${LATENCY_WINDOW} attempts`);
+  for (const e of snapshot.upstream) {
+    const values = [e.latencyMs.p50, e.latencyMs.p95, e.latencyMs.p99];
+    QUANTILES.forEach((q, i) => {
+      if (values[i] !== null) lines.push(`upstox_proxy_upstream_latency_ms{endpoint="${e.endpoint}",quantile="${q}"} ${values[i]}`);
+    });
+    const stats = endpoints.get(e.endpoint);
+    lines.push(`upstox_proxy_upstream_latency_ms_sum{endpoint="${e.endpoint}"} ${stats?.latencySumMs ?? 0}`);
+    lines.push(`upstox_proxy_upstream_latency_ms_count{endpoint="${e.endpoint}"} ${e.calls}`);
+  }
+
+  metric('upstox_proxy_candle_cache_lookups_total', 'counter', 'Historical candle cache lookups by result');
+  for (const result of ['hit', 'partial', 'miss'] as CandleCacheResult[]) {
+    lines.push(`upstox_proxy_candle_cache_lookups_total{result="${result}"} ${snapshot.candleCache[result]}`);
+  }
+
+  metric('upstox_proxy_rate_limit_queued', 'gauge', 'Upstox calls waiting for a rate limit slot');
+  lines.push(`upstox_proxy_rate_limit_queued ${snapshot.rateLimiter.queued}`);
+
+  if (snapshot.instrumentMaster) {
+    metric('upstox_proxy_instrument_master_age_seconds', 'gauge', 'Age of the loaded instrument master data in seconds');
+    lines.push(`upstox_proxy_instrument_master_age_seconds{source="${snapshot.instrumentMaster.source}"} ${snapshot.instrumentMaster.ageSeconds}`);
+    metric('upstox_proxy_instrument_master_instruments', 'gauge', 'Instruments in the loaded master');
+    lines.push(`upstox_proxy_instrument_master_instruments{source="${snapshot.instrumentMaster.source}"} ${snapshot.instrumentMaster.count}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
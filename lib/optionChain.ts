@@ -0,0 +1,191 @@
+import { OptionGreeks, OptionType, impliedVolatility, optionGreeks, yearsToExpiry } from './optionGreeks';
+import { upstoxRequest } from './upstoxClient';
+
+/**
+ * Option chains from the Upstox v2 option chain API, with implied volatility and
+ * Greeks recomputed here (Black-Scholes, lib/optionGreeks.ts) from each leg's
+ * last price, so every figure uses the same rate and expiry convention.
+ * PCR and max pain are derived from open interest across the whole chain.
+ */
+
+export interface OptionLeg {
+  instrumentKey: string;
+  ltp: number;
+  bid: number;
+  ask: number;
+  volume: number;
+  oi: number;
+  changeInOi: number; // vs the previous session's close
+  iv: number | null; // annualised %, null when the premium has no model solution
+  greeks: OptionGreeks | null;
+}
+
+export interface OptionStrike {
+  strike: number;
+  call: OptionLeg | null;
+  put: OptionLeg | null;
+}
+
+export interface OptionChainSummary {
+  totalCallOi: number;
+  totalPutOi: number;
+  pcr: number | null; // put OI / call OI
+  volumePcr: number | null; // put volume / call volume
+  maxPain: number | null; // strike where option writers pay out least at expiry
+  atmStrike: number | null;
+  atmIv: number | null; // mean of the ATM call and put IVs
+}
+
+export interface OptionChain {
+  underlyingKey: string;
+  expiry: string; // YYYY-MM-DD
+  spot: number;
+  yearsToExpiry: number;
+  riskFreeRate: number; // annualised fraction used for IV and Greeks
+  strikes: OptionStrike[]; // ascending
+  summary: OptionChainSummary;
+}
+
+export interface OptionChainRequest {
+  accessToken: string;
+  underlyingKey: string;
+  expiry: string;
+}
+
+// ~91-day T-bill yield; override with OPTIONS_RISK_FREE_RATE (e.g. 0.068)
+const DEFAULT_RISK_FREE_RATE = 0.065;
+
+export function riskFreeRate(): number {
+  const configured = parseFloat(process.env.OPTIONS_RISK_FREE_RATE || '');
+  return Number.isFinite(configured) ? configured : DEFAULT_RISK_FREE_RATE;
+}
+
+const round = (value: number, digits: number) => +value.toFixed(digits);
+
+/**
+ * Expiry dates (YYYY-MM-DD, ascending) with contracts listed on the underlying
+ */
+export async function fetchOptionExpiries(accessToken: string, underlyingKey: string): Promise<string[]> {
+  const response = await upstoxRequest({
+    endpoint: 'options',
+    path: '/v2/option/contract',
+    params: { instrument_key: underlyingKey },
+    accessToken
+  });
+
+  const contracts: any[] = response.data?.data || [];
+  return Array.from(new Set(contracts.map(c => c.expiry).filter(Boolean))).sort();
+}
+
+function toLeg(raw: any, type: OptionType, strike: number, spot: number, years: number, rate: number): OptionLeg | null {
+  if (!raw?.instrument_key) return null;
+
+  const market = raw.market_data || {};
+  const ltp = market.ltp || 0;
+  const bid = market.bid_price || 0;
+  const ask = market.ask_price || 0;
+  const oi = market.oi || 0;
+
+  // Untraded today: the mid quote is the best premium estimate
+  const premium = ltp > 0 ? ltp : bid > 0 && ask > 0 ? (bid + ask) / 2 : 0;
+  const volatility = impliedVolatility(type, premium, spot, strike, years, rate);
+  const greeks = volatility !== null ? optionGreeks(type, spot, strike, years, rate, volatility) : null;
+
+  return {
+    instrumentKey: raw.instrument_key,
+    ltp,
+    bid,
+    ask,
+    volume: market.volume || 0,
+    oi,
+    changeInOi: oi - (market.prev_oi || 0),
+    iv: volatility !== null ? round(volatility * 100, 2) : null,
+    greeks: greeks && {
+      delta: round(greeks.delta, 4),
+      gamma: round(greeks.gamma, 6),
+      theta: round(greeks.theta, 2),
+      vega: round(greeks.vega, 2),
+      rho: round(greeks.rho, 2)
+    }
+  };
+}
+
+/**
+ * Strike at which the total intrinsic value of all open contracts - what option
+ * writers would pay out if the underlying settled there - is smallest
+ */
+export function maxPain(strikes: OptionStrike[]): number | null {
+  let best: { strike: number; payout: number } | null = null;
+
+  for (const { strike: settle } of strikes) {
+    let payout = 0;
+    for (const { strike, call, put } of strikes) {
+      if (call && settle > strike) payout += (settle - strike) * call.oi;
+      if (put && settle < strike) payout += (strike - settle) * put.oi;
+    }
+    if (!best || payout < best.payout) best = { strike: settle, payout };
+  }
+
+  return best && best.strike;
+}
+
+function summarize(strikes: OptionStrike[], spot: number): OptionChainSummary {
+  const sum = (pick: (s: OptionStrike) => number) => strikes.reduce((total, s) => total + pick(s), 0);
+  const totalCallOi = sum(s => s.call?.oi || 0);
+  const totalPutOi = sum(s => s.put?.oi || 0);
+  const callVolume = sum(s => s.call?.volume || 0);
+  const putVolume = sum(s => s.put?.volume || 0);
+
+  const atm = strikes.reduce<OptionStrike | null>(
+    (closest, s) => (!closest || Math.abs(s.strike - spot) < Math.abs(closest.strike - spot) ? s : closest),
+    null
+  );
+  const atmIvs = [atm?.call?.iv, atm?.put?.iv].filter((iv): iv is number => iv != null);
+
+  return {
+    totalCallOi,
+    totalPutOi,
+    pcr: totalCallOi > 0 ? round(totalPutOi / totalCallOi, 2) : null,
+    volumePcr: callVolume > 0 ? round(putVolume / callVolume, 2) : null,
+    maxPain: maxPain(strikes),
+    atmStrike: atm?.strike ?? null,
+    atmIv: atmIvs.length ? round(atmIvs.reduce((a, b) => a + b, 0) / atmIvs.length, 2) : null
+  };
+}
+
+/**
+ * The chain for one expiry, strikes ascending, with IV and Greeks per leg
+ */
+export async function fetchOptionChain(request: OptionChainRequest, now: number = Date.now()): Promise<OptionChain> {
+  const { accessToken, underlyingKey, expiry } = request;
+
+  const response = await upstoxRequest({
+    endpoint: 'options',
+    path: '/v2/option/chain',
+    params: { instrument_key: underlyingKey, expiry_date: expiry },
+    accessToken
+  });
+
+  const rows: any[] = response.data?.data || [];
+  const spot = rows.find(r => r.underlying_spot_price > 0)?.underlying_spot_price || 0;
+  const years = yearsToExpiry(expiry, now);
+  const rate = riskFreeRate();
+
+  const strikes: OptionStrike[] = rows
+    .map(row => ({
+      strike: row.strike_price,
+      call: toLeg(row.call_options, 'CE', row.strike_price, spot, years, rate),
+      put: toLeg(row.put_options, 'PE', row.strike_price, spot, years, rate)
+    }))
+    .sort((a, b) => a.strike - b.strike);
+
+  return {
+    underlyingKey,
+    expiry,
+    spot,
+    yearsToExpiry: round(years, 6),
+    riskFreeRate: rate,
+    strikes,
+    summary: summarize(strikes, spot)
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Black-Scholes pricing, Greeks and implied volatility for European options.
+ * NSE index and stock options are European and cash-settled, so the plain model
+ * (no dividend yield) is what the exchange itself uses for its IV figures.
+ */
+
+export type OptionType = 'CE' | 'PE';
+
+export interface OptionGreeks {
+  delta: number;
+  gamma: number;
+  theta: number; // premium change per calendar day
+  vega: number; // premium change per 1 point of volatility (1%)
+  rho: number; // premium change per 1% of interest rate
+}
+
+const DAY_MS = 86400000;
+const YEAR_DAYS = 365;
+
+// Contracts expire at the close, 15:30 IST
+const EXPIRY_TIME_IST = '15:30:00+05:30';
+
+// Implied volatility search bounds (annualised, as a fraction) and tolerance
+const MIN_VOLATILITY = 0.0001;
+const MAX_VOLATILITY = 5;
+const IV_PRICE_TOLERANCE = 1e-4;
+const MAX_NEWTON_STEPS = 50;
+const MAX_BISECTION_STEPS = 100;
+
+/**
+ * Standard normal density
+ */
+export function normPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 26.2.17, error below 7.5e-8)
+ */
+export function normCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const upperTail = normPdf(x) * poly;
+  return x >= 0 ? 1 - upperTail : upperTail;
+}
+
+/**
+ * Years (of 365 days) from `now` until the contract's 15:30 IST expiry; 0 once expired
+ */
+export function yearsToExpiry(expiry: string, now: number = Date.now()): number {
+  const expiresAt = Date.parse(`${expiry}T${EXPIRY_TIME_IST}`);
+  return Math.max(0, (expiresAt - now) / DAY_MS / YEAR_DAYS);
+}
+
+function d1d2(spot: number, strike: number, years: number, rate: number, volatility: number) {
+  const volSqrtT = volatility * Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (rate + volatility * volatility / 2) * years) / volSqrtT;
+  return { d1, d2: d1 - volSqrtT };
+}
+
+/**
+ * Theoretical premium; intrinsic value once the option has expired
+ */
+export function blackScholesPrice(
+  type: OptionType,
+  spot: number,
+  strike: number,
+  years: number,
+  rate: number,
+  volatility: number
+): number {
+  if (years <= 0 || volatility <= 0) {
+    return Math.max(0, type === 'CE' ? spot - strike : strike - spot);
+  }
+
+  const { d1, d2 } = d1d2(spot, strike, years, rate, volatility);
+  const discountedStrike = strike * Math.exp(-rate * years);
+
+  return type === 'CE'
+    ? spot * normCdf(d1) - discountedStrike * normCdf(d2)
+    : discountedStrike * normCdf(-d2) - spot * normCdf(-d1);
+}
+
+/**
+ * Greeks at a given volatility; null for an expired option or a non-positive volatility
+ */
+export function optionGreeks(
+  type: OptionType,
+  spot: number,
+  strike: number,
+  years: number,
+  rate: number,
+  volatility: number
+): OptionGreeks | null {
+  if (years <= 0 || volatility <= 0 || spot <= 0 || strike <= 0) return null;
+
+  const { d1, d2 } = d1d2(spot, strike, years, rate, volatility);
+  const sqrtT = Math.sqrt(years);
+  const density = normPdf(d1);
+  const discountedStrike = strike * Math.exp(-rate * years);
+  const decay = -(spot * density * volatility) / (2 * sqrtT);
+
+  const call = type === 'CE';
+  const theta = call
+    ? decay - rate * discountedStrike * normCdf(d2)
+    : decay + rate * discountedStrike * normCdf(-d2);
+  const rho = call
+    ? discountedStrike * years * normCdf(d2)
+    : -discountedStrike * years * normCdf(-d2);
+
+  return {
+    delta: call ? normCdf(d1) : normCdf(d1) - 1,
+    gamma: density / (spot * volatility * sqrtT),
+    theta: theta / YEAR_DAYS,
+    vega: (spot * density * sqrtT) / 100,
+    rho: rho / 100
+  };
+}
+
+/**
+ * Volatility (annualised fraction) at which the model reproduces `premium`.
+ * Newton's method from a 30% guess, falling back to bisection when a step leaves
+ * the bounds or vega vanishes (deep in/out of the money). Null when the premium is
+ * outside the no-arbitrage range - at or below intrinsic value, or above the
+ * spot/strike bound - since no volatility can explain it.
+ */
+export function impliedVolatility(
+  type: OptionType,
+  premium: number,
+  spot: number,
+  strike: number,
+  years: number,
+  rate: number
+): number | null {
+  if (!(premium > 0) || years <= 0 || spot <= 0 || strike <= 0) return null;
+
+  const discountedStrike = strike * Math.exp(-rate * years);
+  const lowerBound = Math.max(0, type === 'CE' ? spot - discountedStrike : discountedStrike - spot);
+  const upperBound = type === 'CE' ? spot : discountedStrike;
+  if (premium <= lowerBound || premium >= upperBound) return null;
+
+  const priceAt = (volatility: number) => blackScholesPrice(type, spot, strike, years, rate, volatility);
+
+  let volatility = 0.3;
+  for (let step = 0; step < MAX_NEWTON_STEPS; step++) {
+    const diff = priceAt(volatility) - premium;
+    if (Math.abs(diff) < IV_PRICE_TOLERANCE) return volatility;
+
+    const vega = optionGreeks(type, spot, strike, years, rate, volatility)!.vega * 100;
+    if (vega < 1e-8) break;
+
+    const next = volatility - diff / vega;
+    if (next <= MIN_VOLATILITY || next >= MAX_VOLATILITY) break;
+    volatility = next;
+  }
+
+  // Price rises monotonically with volatility, so bisection always converges
+  let low = MIN_VOLATILITY;
+  let high = MAX_VOLATILITY;
+  if (priceAt(low) > premium || priceAt(high) < premium) return null;
+
+  for (let step = 0; step < MAX_BISECTION_STEPS; step++) {
+    volatility = (low + high) / 2;
+    const diff = priceAt(volatility) - premium;
+    if (Math.abs(diff) < IV_PRICE_TOLERANCE) break;
+    if (diff > 0) high = volatility;
+    else low = volatility;
+  }
+
+  return volatility;
+}
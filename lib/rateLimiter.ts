@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+
+/**
+ * Server-side rate limiter for Upstox API calls, one per access token.
+ * Upstox enforces per-second, per-minute and per-30-minute quotas per user,
+ * so every upstoxRequest takes a token from all three buckets first. A spent
+ * token returns to its bucket one window after it was used, so no window ever
+ * sees more calls than its limit. Calls beyond the quota wait in a FIFO queue
+ * instead of failing; only a wait longer than MAX_QUEUE_WAIT_MS is rejected.
+ */
+
+export interface RateWindow {
+  label: string;
+  limit: number;
+  windowMs: number;
+}
+
+// Upstox's published limits for the standard (non-order) APIs
+export const UPSTOX_RATE_LIMITS: RateWindow[] = [
+  { label: 'second', limit: 50, windowMs: 1000 },
+  { label: 'minute', limit: 500, windowMs: 60000 },
+  { label: '30 minutes', limit: 2000, windowMs: 1800000 }
+];
+
+// Longer waits are rejected up front as RATE_LIMITED rather than holding the request open
+const MAX_QUEUE_WAIT_MS = 30000;
+// Limiters unused for a full longest window are dropped
+const IDLE_EVICT_MS = 1800000;
+
+export interface RateWindowState {
+  label: string;
+  limit: number;
+  windowMs: number;
+  used: number;
+  remaining: number;
+  resetInMs: number; // until the next token returns; 0 when tokens are available
+}
+
+export interface RateLimiterState {
+  queued: number;
+  windows: RateWindowState[];
+}
+
+/**
+ * Thrown when a call would have to queue longer than MAX_QUEUE_WAIT_MS.
+ * Shaped like an Upstox 429 so retries, batch requeues and route error mapping treat it the same.
+ */
+export class RateLimitQueueError extends Error {
+  readonly code = 'RATE_LIMIT_QUEUE_FULL';
+  readonly response: { status: 429; headers: Record<string, string>; data: { errors: { message: string }[] } };
+
+  constructor(readonly retryAfterMs: number) {
+    const message = `Upstox rate limit reached; next slot in ${Math.ceil(retryAfterMs / 1000)}s`;
+    super(message);
+    this.name = 'RateLimitQueueError';
+    this.response = {
+      status: 429,
+      headers: { 'retry-after': String(Math.ceil(retryAfterMs / 1000)) },
+      data: { errors: [{ message }] }
+    };
+  }
+}
+
+class WindowBucket {
+  private spent: number[] = []; // timestamps of tokens still out, oldest first
+
+  constructor(readonly window: RateWindow) {}
+
+  private prune(now: number) {
+    const cutoff = now - this.window.windowMs;
+    let expired = 0;
+    while (expired < this.spent.length && this.spent[expired] <= cutoff) expired++;
+    if (expired) this.spent.splice(0, expired);
+  }
+
+  /**
+   * Milliseconds until `ahead + 1` more tokens are available
+   */
+  waitFor(now: number, ahead: number): number {
+    this.prune(now);
+    const { limit, windowMs } = this.window;
+    const index = this.spent.length + ahead - limit; // spent token that has to come back first
+    if (index < 0) return 0;
+    if (index < this.spent.length) return this.spent[index] + windowMs - now;
+    // Beyond tokens already spent - at least one more full window per `limit` calls
+    return windowMs * Math.ceil((index - this.spent.length + 1) / limit);
+  }
+
+  take(now: number) {
+    this.spent.push(now);
+  }
+
+  state(now: number): RateWindowState {
+    this.prune(now);
+    const used = this.spent.length;
+    return {
+      ...this.window,
+      used,
+      remaining: Math.max(0, this.window.limit - used),
+      resetInMs: used >= this.window.limit ? this.spent[used - this.window.limit] + this.window.windowMs - now : 0
+    };
+  }
+}
+
+class TokenRateLimiter {
+  private buckets = UPSTOX_RATE_LIMITS.map(w => new WindowBucket(w));
+  private queue: { resolve: () => void }[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  lastUsed = Date.now();
+
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  private waitFor(now: number, ahead: number): number {
+    return Math.max(...this.buckets.map(b => b.waitFor(now, ahead)));
+  }
+
+  acquire(): Promise<void> {
+    const now = Date.now();
+    this.lastUsed = now;
+
+    const wait = this.waitFor(now, this.queue.length);
+    if (wait > MAX_QUEUE_WAIT_MS) {
+      return Promise.reject(new RateLimitQueueError(wait));
+    }
+
+    return new Promise(resolve => {
+      this.queue.push({ resolve });
+      this.drain();
+    });
+  }
+
+  private drain() {
+    if (this.timer) return;
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      const wait = this.waitFor(now, 0);
+
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.drain();
+        }, wait);
+        return;
+      }
+
+      this.buckets.forEach(b => b.take(now));
+      this.queue.shift()!.resolve();
+    }
+  }
+
+  state(): RateLimiterState {
+    const now = Date.now();
+    return { queued: this.queue.length, windows: this.buckets.map(b => b.state(now)) };
+  }
+}
+
+const limiters = new Map<string, TokenRateLimiter>();
+
+// Access tokens are never kept as map keys
+function limiterKey(accessToken: string): string {
+  return crypto.createHash('sha256').update(accessToken).digest('hex');
+}
+
+function evictIdle() {
+  const cutoff = Date.now() - IDLE_EVICT_MS;
+  limiters.forEach((limiter, key) => {
+    if (limiter.queued === 0 && limiter.lastUsed < cutoff) limiters.delete(key);
+  });
+}
+
+/**
+ * Wait for a slot in the token's Upstox quota.
+ * Resolves with how long the call was queued; rejects with RateLimitQueueError
+ * if the wait would exceed MAX_QUEUE_WAIT_MS.
+ */
+export async function acquireUpstoxSlot(accessToken: string): Promise<number> {
+  evictIdle();
+
+  const key = limiterKey(accessToken);
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new TokenRateLimiter();
+    limiters.set(key, limiter);
+  }
+
+  const started = Date.now();
+  await limiter.acquire();
+  return Date.now() - started;
+}
+
+/**
+ * Current usage and queue depth for one token (a fresh token reports everything available)
+ */
+export function getRateLimitState(accessToken: string): RateLimiterState {
+  return (limiters.get(limiterKey(accessToken)) || new TokenRateLimiter()).state();
+}
+
+/**
+ * Queue depth across every token, for /api/metrics
+ */
+export function getRateLimitTotals(): { tokens: number; queued: number } {
+  let queued = 0;
+  limiters.forEach(limiter => { queued += limiter.queued; });
+  return { tokens: limiters.size, queued };
+}
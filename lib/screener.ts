@@ -0,0 +1,265 @@
+import type { Candle } from './candleCache';
+import type { IndexId } from './indexConstituents';
+
+/**
+ * Spec-driven stock screener.
+ * A spec names a universe, a metric measured over a lookback of daily, weekly or
+ * monthly candles, filters and a sort direction; runScreener in lib/upstoxApi.ts
+ * fetches the candles and this module does the ranking. The console's gainer and
+ * loser data modes are presets of it, and users can save their own specs.
+ */
+
+// Per run - matches /api/historical/batch's instrument limit
+export const MAX_SCREENER_UNIVERSE = 500;
+
+// An exchange's MAX_SCREENER_UNIVERSE most-traded equities by today's turnover, or an index's current members
+export type ScreenerUniverse = 'NSE' | 'BSE' | IndexId;
+
+// change: % close-to-close over the lookback
+// volumeChange: % latest bar's volume vs the average of the lookback bars before it
+// gap: % latest bar's open vs the previous bar's close (lookback unused)
+// range: % (highest high - lowest low) / lowest low across the lookback
+export type ScreenerMetric = 'change' | 'volumeChange' | 'gap' | 'range';
+
+export type LookbackUnit = 'days' | 'weeks' | 'months';
+
+export interface ScreenerSpec {
+  universe: ScreenerUniverse;
+  metric: ScreenerMetric;
+  lookback: number; // bars of lookbackUnit
+  lookbackUnit: LookbackUnit;
+  direction: 'top' | 'bottom'; // highest or lowest metric first
+  minPrice?: number; // latest close, ₹
+  minVolume?: number; // average volume per bar over the lookback
+  minValue?: number; // the metric, %
+  maxValue?: number; // the metric, %
+  limit: number;
+}
+
+export interface ScreenerPreset {
+  id: string;
+  name: string;
+  spec: ScreenerSpec;
+}
+
+export interface ScreenerMatch {
+  symbol: string;
+  instrumentKey: string;
+  value: number; // the metric, %
+  price: number; // latest close
+  volume: number; // average volume per bar over the lookback
+}
+
+export interface ScreenerResult {
+  spec: ScreenerSpec;
+  matches: ScreenerMatch[]; // ranked, at most spec.limit
+  listed: number; // stocks in the universe before the per-run cap
+  scanned: number; // stocks whose candles were requested
+  failed: number;
+}
+
+export const SCREENER_UNIVERSES: Record<ScreenerUniverse, string> = {
+  NSE: `NSE (${MAX_SCREENER_UNIVERSE} most traded)`,
+  BSE: `BSE (${MAX_SCREENER_UNIVERSE} most traded)`,
+  NIFTY_50: 'Nifty 50',
+  NIFTY_NEXT_50: 'Nifty Next 50',
+  BANK_NIFTY: 'Bank Nifty',
+  SENSEX: 'Sensex'
+};
+
+export const SCREENER_METRICS: Record<ScreenerMetric, string> = {
+  change: '% Change',
+  volumeChange: 'Volume Change',
+  gap: 'Gap',
+  range: 'Range'
+};
+
+export const LOOKBACK_UNITS: LookbackUnit[] = ['days', 'weeks', 'months'];
+
+// Keeps the candle request within a few years of history
+export const MAX_LOOKBACK: Record<LookbackUnit, number> = { days: 500, weeks: 150, months: 36 };
+
+// Metric values are rounded to 0.01%, so these keep gainers above 0 and losers below it
+const GAINING = { minValue: 0.01 };
+const LOSING = { maxValue: -0.01 };
+
+const daily = (direction: ScreenerSpec['direction']): ScreenerSpec => ({
+  universe: 'NSE', metric: 'change', lookback: 1, lookbackUnit: 'days', direction,
+  ...(direction === 'top' ? GAINING : LOSING), limit: 50
+});
+
+/**
+ * Built-in presets; the ids are the console's data modes
+ */
+export const SCREENER_PRESETS: ScreenerPreset[] = [
+  { id: 'topGainers', name: '🔺 Top 50 Daily Gainers', spec: daily('top') },
+  { id: 'topLosers', name: '🔻 Top 50 Daily Losers', spec: daily('bottom') },
+  { id: 'weeklyGainers', name: '📈 Top 50 Weekly Gainers', spec: { ...daily('top'), lookbackUnit: 'weeks' } },
+  { id: 'weeklyLosers', name: '📉 Top 50 Weekly Losers', spec: { ...daily('bottom'), lookbackUnit: 'weeks' } },
+  { id: 'monthlyGainers', name: '🚀 Top 50 Monthly Gainers', spec: { ...daily('top'), lookbackUnit: 'months' } },
+  { id: 'monthlyLosers', name: '💥 Top 50 Monthly Losers', spec: { ...daily('bottom'), lookbackUnit: 'months' } }
+];
+
+/**
+ * Problems with a spec, as messages; empty when it can run
+ */
+export function screenerSpecIssues(spec: ScreenerSpec): string[] {
+  const issues: string[] = [];
+  const positiveInt = (value: number) => Number.isInteger(value) && value > 0;
+
+  if (!(spec.universe in SCREENER_UNIVERSES)) issues.push(`unknown universe ${spec.universe}`);
+  if (!(spec.metric in SCREENER_METRICS)) issues.push(`unknown metric ${spec.metric}`);
+  if (!LOOKBACK_UNITS.includes(spec.lookbackUnit)) {
+    issues.push(`unknown lookback unit ${spec.lookbackUnit}`);
+  } else if (!positiveInt(spec.lookback) || spec.lookback > MAX_LOOKBACK[spec.lookbackUnit]) {
+    issues.push(`lookback must be between 1 and ${MAX_LOOKBACK[spec.lookbackUnit]} ${spec.lookbackUnit}`);
+  }
+  if (spec.direction !== 'top' && spec.direction !== 'bottom') issues.push('direction must be top or bottom');
+  if (spec.minPrice !== undefined && !(spec.minPrice >= 0)) issues.push('minimum price must be 0 or more');
+  if (spec.minVolume !== undefined && !(spec.minVolume >= 0)) issues.push('minimum volume must be 0 or more');
+  if (spec.minValue !== undefined && !Number.isFinite(spec.minValue)) issues.push('minimum value must be a number');
+  if (spec.maxValue !== undefined && !Number.isFinite(spec.maxValue)) issues.push('maximum value must be a number');
+  if (spec.minValue !== undefined && spec.maxValue !== undefined && spec.minValue > spec.maxValue) {
+    issues.push('minimum value must not exceed maximum value');
+  }
+  if (!positiveInt(spec.limit) || spec.limit > MAX_SCREENER_UNIVERSE) {
+    issues.push(`limit must be between 1 and ${MAX_SCREENER_UNIVERSE}`);
+  }
+
+  return issues;
+}
+
+// Candles the metric reads, newest first
+function barsNeeded(spec: ScreenerSpec): number {
+  if (spec.metric === 'gap') return 2;
+  if (spec.metric === 'range') return spec.lookback;
+  return spec.lookback + 1;
+}
+
+/**
+ * fromDate / toDate (YYYY-MM-DD) wide enough to hold the bars a spec needs,
+ * allowing for weekends and market holidays
+ */
+export function screenerDateRange(spec: ScreenerSpec, now: number = Date.now()): { fromDate: string; toDate: string } {
+  const bars = barsNeeded(spec);
+  const calendarDays = spec.lookbackUnit === 'days'
+    ? Math.ceil(bars * 1.5) + 10
+    : spec.lookbackUnit === 'weeks' ? (bars + 1) * 7 : (bars + 1) * 31;
+
+  const day = 24 * 60 * 60 * 1000;
+  return {
+    fromDate: new Date(now - calendarDays * day).toISOString().split('T')[0],
+    toDate: new Date(now).toISOString().split('T')[0]
+  };
+}
+
+const percent = (value: number, base: number) => +(((value - base) / base) * 100).toFixed(2);
+
+/**
+ * One instrument's metric from its candles (any order), or null when there
+ * aren't enough bars or the spec's filters exclude it
+ */
+export function screenInstrument(
+  spec: ScreenerSpec,
+  instrument: { symbol: string; instrumentKey: string },
+  candles: Candle[]
+): ScreenerMatch | null {
+  const bars = [...candles].sort((a, b) => b[0].localeCompare(a[0])).slice(0, barsNeeded(spec));
+  if (bars.length < barsNeeded(spec)) return null;
+
+  const [latest, previous] = bars;
+  const [, open, , , close, volume] = latest;
+  let value: number;
+
+  if (spec.metric === 'change') {
+    const base = bars[spec.lookback][4];
+    if (!base) return null;
+    value = percent(close, base);
+  } else if (spec.metric === 'volumeChange') {
+    const prior = bars.slice(1);
+    const average = prior.reduce((sum, bar) => sum + bar[5], 0) / prior.length;
+    if (!average) return null;
+    value = percent(volume, average);
+  } else if (spec.metric === 'gap') {
+    if (!previous[4]) return null;
+    value = percent(open, previous[4]);
+  } else {
+    const high = Math.max(...bars.map(bar => bar[2]));
+    const low = Math.min(...bars.map(bar => bar[3]));
+    if (!low) return null;
+    value = percent(high, low);
+  }
+
+  const window = bars.slice(0, spec.metric === 'gap' ? 2 : spec.lookback);
+  const averageVolume = Math.round(window.reduce((sum, bar) => sum + bar[5], 0) / window.length);
+
+  if (spec.minPrice !== undefined && close < spec.minPrice) return null;
+  if (spec.minVolume !== undefined && averageVolume < spec.minVolume) return null;
+  if (spec.minValue !== undefined && value < spec.minValue) return null;
+  if (spec.maxValue !== undefined && value > spec.maxValue) return null;
+
+  return { ...instrument, value, price: close, volume: averageVolume };
+}
+
+/**
+ * Matches sorted by the spec's direction and cut to its limit
+ */
+export function rankMatches(spec: ScreenerSpec, matches: ScreenerMatch[]): ScreenerMatch[] {
+  const sign = spec.direction === 'top' ? -1 : 1;
+  return [...matches].sort((a, b) => sign * (a.value - b.value)).slice(0, spec.limit);
+}
+
+const BAR_NAMES: Record<LookbackUnit, string> = { days: 'daily', weeks: 'weekly', months: 'monthly' };
+
+/**
+ * "Nifty 50 · % Change over 1 week · top 50" style summary
+ */
+export function describeScreenerSpec(spec: ScreenerSpec): string {
+  const unit = spec.lookback === 1 ? spec.lookbackUnit.replace(/s$/, '') : spec.lookbackUnit;
+  const parts = [
+    SCREENER_UNIVERSES[spec.universe],
+    spec.metric === 'gap' ? `Gap (${BAR_NAMES[spec.lookbackUnit]} bars)` : `${SCREENER_METRICS[spec.metric]} over ${spec.lookback} ${unit}`,
+    `${spec.direction} ${spec.limit}`
+  ];
+  if (spec.minPrice) parts.push(`price ≥ ₹${spec.minPrice}`);
+  if (spec.minVolume) parts.push(`volume ≥ ${spec.minVolume.toLocaleString('en-IN')}`);
+  if (spec.minValue !== undefined) parts.push(`${SCREENER_METRICS[spec.metric]} ≥ ${spec.minValue}%`);
+  if (spec.maxValue !== undefined) parts.push(`${SCREENER_METRICS[spec.metric]} ≤ ${spec.maxValue}%`);
+  return parts.join(' · ');
+}
+
+// ----- Saved screens (browser only) -----
+
+const SAVED_SCREENS_STORAGE_KEY = 'upstox_saved_screens';
+
+/**
+ * User-saved presets from localStorage; entries that no longer validate are dropped
+ */
+export function loadSavedScreens(): ScreenerPreset[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SAVED_SCREENS_STORAGE_KEY) || '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.filter((preset: any) =>
+      typeof preset?.id === 'string' && typeof preset.name === 'string' &&
+      preset.spec && screenerSpecIssues(preset.spec).length === 0
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save a spec under a name (replacing a saved screen of the same name)
+ * @returns The saved preset
+ */
+export function saveScreen(name: string, spec: ScreenerSpec): ScreenerPreset {
+  const preset: ScreenerPreset = { id: `saved:${Date.now().toString(36)}`, name: name.trim(), spec };
+  const others = loadSavedScreens().filter(p => p.name !== preset.name);
+  localStorage.setItem(SAVED_SCREENS_STORAGE_KEY, JSON.stringify([...others, preset]));
+  return preset;
+}
+
+export function deleteSavedScreen(id: string) {
+  const remaining = loadSavedScreens().filter(p => p.id !== id);
+  localStorage.setItem(SAVED_SCREENS_STORAGE_KEY, JSON.stringify(remaining));
+}
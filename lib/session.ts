@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from './validation';
+
+/**
+ * Server-side session stored in an encrypted, httpOnly cookie.
+ * The Upstox access tokens live only inside this cookie - the browser
+ * can never read them, and API routes decrypt them on each request.
+ *
+ * A session holds one profile per Upstox account (family/client accounts),
+ * with one of them active for the proxy routes.
+ */
+
+export const SESSION_COOKIE_NAME = 'upstox_session';
+export const OAUTH_STATE_COOKIE_NAME = 'upstox_oauth_state';
+
+const OAUTH_STATE_MAX_AGE = 600; // 10 minutes to complete the login popup
+// Keeps the encrypted cookie comfortably under the 4KB browser limit
+export const MAX_PROFILES = 5;
+
+export interface UpstoxProfile {
+  id: string; // Upstox user_id
+  name: string;
+  accessToken: string;
+  createdAt: number;
+  expiresAt: number; // epoch ms, from the token response's expires_in
+}
+
+export interface UpstoxSession {
+  activeProfileId: string;
+  profiles: UpstoxProfile[];
+}
+
+/**
+ * Derive the 256-bit AES key from SESSION_SECRET (falls back to the
+ * Upstox API secret so existing deployments keep working).
+ */
+function getSessionKey(): Buffer {
+  const secret = process.env.SESSION_SECRET || process.env.UPSTOX_API_SECRET;
+
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+function encryptSession(session: UpstoxSession): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getSessionKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(JSON.stringify(session), 'utf-8'),
+    cipher.final()
+  ]);
+  const tag = cipher.getAuthTag();
+
+  return Buffer.concat([iv, tag, encrypted]).toString('base64url');
+}
+
+function decryptSession(value: string): UpstoxSession | null {
+  try {
+    const raw = Buffer.from(value, 'base64url');
+    const iv = raw.subarray(0, 12);
+    const tag = raw.subarray(12, 28);
+    const encrypted = raw.subarray(28);
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getSessionKey(), iv);
+    decipher.setAuthTag(tag);
+
+    const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]);
+    const session = JSON.parse(decrypted.toString('utf-8'));
+
+    return Array.isArray(session?.profiles) ? session : null;
+  } catch (error: any) {
+    console.warn('Discarding unreadable session cookie:', error.message);
+    return null;
+  }
+}
+
+/**
+ * Read and decrypt the session from the incoming request.
+ * Expired profiles are dropped; a session with none left is treated as missing.
+ */
+export function getSession(request: NextRequest): UpstoxSession | null {
+  const cookie = request.cookies.get(SESSION_COOKIE_NAME);
+  if (!cookie?.value) return null;
+
+  const session = decryptSession(cookie.value);
+  if (!session) return null;
+
+  return pruneSession(session);
+}
+
+/**
+ * Resolve the profile a proxy call should use - the named one, or the active one
+ */
+export function getSessionProfile(request: NextRequest, profileId?: string | null): UpstoxProfile | null {
+  const session = getSession(request);
+  if (!session) return null;
+
+  const id = profileId || session.activeProfileId;
+  return session.profiles.find(p => p.id === id) || null;
+}
+
+function pruneSession(session: UpstoxSession): UpstoxSession | null {
+  const profiles = session.profiles.filter(p => p.accessToken && p.expiresAt > Date.now());
+  if (profiles.length === 0) return null;
+
+  const activeProfileId = profiles.some(p => p.id === session.activeProfileId)
+    ? session.activeProfileId
+    : profiles[0].id;
+
+  return { activeProfileId, profiles };
+}
+
+/**
+ * Add (or replace) a profile and make it the active one
+ */
+export function addProfile(session: UpstoxSession | null, profile: UpstoxProfile): UpstoxSession {
+  const others = (session?.profiles || []).filter(p => p.id !== profile.id);
+  // Oldest logins are dropped first once the cap is reached
+  const profiles = [...others.slice(-(MAX_PROFILES - 1)), profile];
+
+  return { activeProfileId: profile.id, profiles };
+}
+
+/**
+ * Remove a profile, falling back to the next one as active
+ */
+export function removeProfile(session: UpstoxSession, profileId: string): UpstoxSession | null {
+  return pruneSession({
+    activeProfileId: session.activeProfileId,
+    profiles: session.profiles.filter(p => p.id !== profileId)
+  });
+}
+
+/**
+ * Encrypt the session into the httpOnly cookie on the outgoing response.
+ * The cookie lives as long as the longest-lived profile.
+ */
+export function setSession(response: NextResponse, session: UpstoxSession) {
+  const latestExpiry = Math.max(...session.profiles.map(p => p.expiresAt));
+
+  response.cookies.set({
+    name: SESSION_COOKIE_NAME,
+    value: encryptSession(session),
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: Math.max(0, Math.floor((latestExpiry - Date.now()) / 1000))
+  });
+}
+
+/**
+ * Write the session back, or clear the cookie when no profiles remain
+ */
+export function saveSession(response: NextResponse, session: UpstoxSession | null) {
+  if (session) {
+    setSession(response, session);
+  } else {
+    clearSession(response);
+  }
+}
+
+/**
+ * Profile list safe to send to the browser (no tokens)
+ */
+export function describeSession(session: UpstoxSession | null) {
+  const active = session?.profiles.find(p => p.id === session.activeProfileId);
+
+  return {
+    authenticated: !!active,
+    expires_at: active?.expiresAt || null,
+    active_profile: active?.id || null,
+    profiles: (session?.profiles || []).map(p => ({
+      id: p.id,
+      name: p.name,
+      expires_at: p.expiresAt
+    }))
+  };
+}
+
+export function clearSession(response: NextResponse) {
+  response.cookies.set({
+    name: SESSION_COOKIE_NAME,
+    value: '',
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0
+  });
+}
+
+/**
+ * Remember the OAuth state for the login attempt in progress.
+ * Checked against the state Upstox echoes back before any code is exchanged.
+ */
+export function setOAuthState(response: NextResponse, state: string) {
+  response.cookies.set({
+    name: OAUTH_STATE_COOKIE_NAME,
+    value: state,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: OAUTH_STATE_MAX_AGE
+  });
+}
+
+/**
+ * Constant-time comparison of the returned state with the one issued at login
+ */
+export function verifyOAuthState(request: NextRequest, state: string | undefined | null): boolean {
+  const expected = request.cookies.get(OAUTH_STATE_COOKIE_NAME)?.value;
+  if (!expected || !state) return false;
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(state);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export function clearOAuthState(response: NextResponse) {
+  response.cookies.set({
+    name: OAUTH_STATE_COOKIE_NAME,
+    value: '',
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0
+  });
+}
+
+/**
+ * Standard 401 response for proxy routes called without a session.
+ * Also drops any stale (expired or unreadable) cookie.
+ */
+export function unauthenticatedResponse() {
+  const response = errorResponse(401, 'NOT_AUTHENTICATED', 'Not authenticated. Please login to Upstox.');
+  clearSession(response);
+  return response;
+}
+
+/**
+ * 401 response for when Upstox rejects a profile's token.
+ * Drops that profile (other accounts stay logged in) so the client is
+ * prompted to login again.
+ */
+export function sessionExpiredResponse(request: NextRequest, profileId: string, message?: string) {
+  const response = errorResponse(401, 'SESSION_EXPIRED', message || 'Upstox session expired. Please login again.', {
+    profile: profileId
+  });
+
+  const session = getSession(request);
+  saveSession(response, session ? removeProfile(session, profileId) : null);
+  return response;
+}
@@ -1,108 +1,395 @@
 import axios from 'axios';
 import { COMPANY_FULL_NAMES } from './constants';
+import { ApiError, AuthError, toApiError } from './apiErrors';
+import type { FeedMode, FeedStatus, LiveTick } from './marketFeed';
+import type { HistoricalBatchResult, HistoricalBatchSummary } from './historicalBatch';
+import type { HealthReport, MetricsSnapshot } from './metrics';
+import type { RateLimiterState } from './rateLimiter';
+import type { Instrument } from './instrumentMaster';
+import type { InstrumentSearchResult } from './instrumentSearch';
+import type { CompanyNameMatch } from './companyNames';
+import type { CrossListing } from './crossListing';
+import type { OptionChain, OptionChainSummary, OptionLeg, OptionStrike } from './optionChain';
+import type { OptionGreeks } from './optionGreeks';
+import { currentConstituents } from './indexConstituents';
+import {
+  MAX_SCREENER_UNIVERSE,
+  ScreenerMatch,
+  ScreenerResult,
+  ScreenerSpec,
+  ScreenerUniverse,
+  describeScreenerSpec,
+  rankMatches,
+  screenInstrument,
+  screenerDateRange,
+  screenerSpecIssues
+} from './screener';
+
+// Tokens used to live in localStorage - purge any left behind by older builds
+const LEGACY_TOKEN_STORAGE_KEY = 'upstox_access_token';
+// Pending OAuth state - localStorage so the login popup can read it too
+const OAUTH_STATE_STORAGE_KEY = 'upstox_oauth_state';
+// Per /api/stream connection - matches the route's limit
+const MAX_STREAM_INSTRUMENTS = 200;
+// Per /api/historical/batch call - matches the route's limit
+const MAX_BATCH_INSTRUMENTS = 500;
+
+export interface ProfileSummary {
+  id: string;
+  name: string;
+  expiresAt: number;
+}
+
+export type {
+  FeedMode, FeedStatus, LiveTick, HistoricalBatchResult, HistoricalBatchSummary, HealthReport, MetricsSnapshot,
+  RateLimiterState, Instrument, InstrumentSearchResult, CompanyNameMatch, CrossListing, OptionChain, OptionChainSummary,
+  OptionLeg, OptionStrike, OptionGreeks, ScreenerMatch, ScreenerResult, ScreenerSpec
+};
+
+export interface ExchangeQuote {
+  instrumentKey: string;
+  symbol: string;
+  price: number | null;
+  volume: number | null;
+}
+
+/**
+ * One company's live price and volume on both exchanges
+ */
+export interface ExchangeComparison {
+  isin: string;
+  nse: ExchangeQuote | null;
+  bse: ExchangeQuote | null;
+  spread: number | null; // NSE price minus BSE price
+  spreadPercent: number | null; // of the BSE price
+}
 
-const TOKEN_STORAGE_KEY = 'upstox_access_token';
+export type SymbolResolution =
+  | { status: 'found'; instrumentKey: string; instrument: Instrument }
+  | { status: 'ambiguous'; candidates: Instrument[] }
+  | { status: 'not_found' };
+
+export interface LiveQuoteListener {
+  onTick: (tick: LiveTick) => void;
+  onStatus?: (status: FeedStatus) => void;
+  // The stream gave up (e.g. SESSION_EXPIRED) and will not reconnect
+  onError?: (error: ApiError) => void;
+}
+
+interface LiveSubscription {
+  keys: Set<string>;
+  mode: FeedMode;
+  listener: LiveQuoteListener;
+}
+
+/**
+ * Display name for a symbol: the curated name for well-known stocks, else the
+ * instrument master's name, else the symbol itself
+ */
+export function companyNameFor(symbol: string, instrument?: Instrument | null): string {
+  return COMPANY_FULL_NAMES[symbol.toUpperCase()] || instrument?.name || symbol;
+}
+
+// A key found by probing Upstox directly, with none of the master's metadata
+function probedInstrument(symbol: string, instrumentKey: string): Instrument {
+  const segment = instrumentKey.split('|')[0];
+  return {
+    instrumentKey,
+    symbol,
+    name: null,
+    segment,
+    exchange: segment.split('_')[0],
+    instrumentType: null,
+    isin: null,
+    lotSize: null,
+    tickSize: null,
+    expiry: null,
+    strikePrice: null,
+    underlyingKey: null
+  };
+}
 
 export class UpstoxAPI {
-  private accessToken: string | null = null;
-  private instrumentCache: Record<string, any> = {};
+  private authenticated = false;
+  private expiresAt: number | null = null;
+  private profiles: ProfileSummary[] = [];
+  private activeProfileId: string | null = null;
+  private sessionExpiredListeners = new Set<() => void>();
+  private http = axios.create();
+  private liveSubscriptions = new Set<LiveSubscription>();
+  private liveSources: EventSource[] = [];
+  private liveSourceSignature = '';
+  private liveRefreshPending = false;
+  private instrumentCache: Record<string, Record<string, Instrument>> = {}; // exchange -> SYMBOL -> instrument
   private lastRequestTime = 0;
   private minRequestInterval = 100; // 100ms = 10 requests/second
 
   constructor() {
-    // Try to restore token from localStorage on initialization
     if (typeof window !== 'undefined') {
-      const storedToken = localStorage.getItem(TOKEN_STORAGE_KEY);
-      if (storedToken) {
-        this.accessToken = storedToken;
-        console.log('✓ Restored access token from localStorage');
-      }
+      localStorage.removeItem(LEGACY_TOKEN_STORAGE_KEY);
     }
+
+    // Any 401 from a proxy route means the server has already dropped the profile.
+    // Route errors are rethrown as typed ApiErrors; network failures pass through as-is.
+    this.http.interceptors.response.use(undefined, (error) => {
+      if (!error.response) return Promise.reject(error);
+
+      if (error.response.status === 401 && this.authenticated) {
+        this.expireSession();
+      }
+      return Promise.reject(toApiError(error.response.status, error.response.data));
+    });
   }
 
-  setAccessToken(token: string) {
-    this.accessToken = token;
-    // Save to localStorage for persistence
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(TOKEN_STORAGE_KEY, token);
-      console.log('✓ Access token saved to localStorage');
+  private notAuthenticated(): AuthError {
+    return new AuthError(401, { error: 'Not authenticated', code: 'NOT_AUTHENTICATED' });
+  }
+
+  /**
+   * Ask the server whether a session cookie exists.
+   * The access token itself stays in the httpOnly cookie and is never exposed here.
+   */
+  async checkSession(): Promise<boolean> {
+    try {
+      const response = await this.http.get('/api/auth/session');
+      this.applySession(response.data);
+    } catch (error: any) {
+      console.error('Session check failed:', error.message);
+      this.clearSession();
     }
+    return this.authenticated;
   }
 
-  getAccessToken(): string | null {
-    return this.accessToken;
+  /**
+   * Update local state from a /api/auth/session payload
+   */
+  private applySession(data: any) {
+    if (!data?.authenticated) {
+      this.clearSession();
+      return;
+    }
+
+    this.authenticated = true;
+    this.expiresAt = data.expires_at;
+    this.activeProfileId = data.active_profile;
+    this.profiles = (data.profiles || []).map((p: any) => ({
+      id: p.id,
+      name: p.name,
+      expiresAt: p.expires_at
+    }));
   }
 
-  clearToken() {
-    this.accessToken = null;
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem(TOKEN_STORAGE_KEY);
-      console.log('✓ Access token removed from localStorage');
-    }
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  getExpiresAt(): number | null {
+    return this.expiresAt;
+  }
+
+  getProfiles(): ProfileSummary[] {
+    return this.profiles;
+  }
+
+  getActiveProfileId(): string | null {
+    return this.activeProfileId;
   }
 
   /**
-   * Rate limiting helper
+   * Make another logged-in account the active one for all proxy calls
    */
-  private async rateLimitedRequest<T>(requestFn: () => Promise<T>): Promise<T> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
+  async switchProfile(profileId: string): Promise<void> {
+    const response = await this.http.post('/api/auth/session', { profile: profileId });
+    this.applySession(response.data);
+  }
 
-    if (timeSinceLastRequest < this.minRequestInterval) {
-      await new Promise(resolve =>
-        setTimeout(resolve, this.minRequestInterval - timeSinceLastRequest)
-      );
-    }
+  /**
+   * Logout via the server: revokes the Upstox token(s) and clears them from the session.
+   * Returns the profiles whose tokens could not be revoked at Upstox.
+   */
+  async logout(profile?: string): Promise<string[]> {
+    const response = await this.http.post('/api/auth/logout', profile ? { profile } : {});
+    this.applySession(response.data);
 
-    this.lastRequestTime = Date.now();
-    return requestFn();
+    return (response.data.revoked || [])
+      .filter((r: any) => !r.revoked)
+      .map((r: any) => r.profile);
+  }
+
+  clearSession() {
+    this.closeLiveSources();
+    this.authenticated = false;
+    this.expiresAt = null;
+    this.profiles = [];
+    this.activeProfileId = null;
   }
 
   /**
-   * Convert company name to symbol
-   * Example: "State Bank of India" → "SBIN"
+   * Mark the session as expired and notify listeners (e.g. to show a re-login prompt)
    */
-  private companyNameToSymbol(input: string): string | null {
-    // Direct symbol check first
-    if (input.length <= 15 && input === input.toUpperCase()) {
-      return input;
+  expireSession() {
+    const wasAuthenticated = this.authenticated;
+    this.clearSession();
+    if (wasAuthenticated) {
+      console.warn('⚠️ Upstox session expired');
+      this.sessionExpiredListeners.forEach(listener => listener());
     }
+  }
+
+  /**
+   * Start a login attempt: generate a random OAuth state, remember it,
+   * and return the URL for the login popup.
+   */
+  createLoginUrl(): string {
+    const bytes = new Uint8Array(16);
+    window.crypto.getRandomValues(bytes);
+    const state = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
 
-    // Normalize input for comparison
-    const normalizedInput = input.toLowerCase().trim();
+    localStorage.setItem(OAUTH_STATE_STORAGE_KEY, state);
+    return `/api/auth/login?state=${state}`;
+  }
 
-    // Search in COMPANY_FULL_NAMES
-    for (const [symbol, fullName] of Object.entries(COMPANY_FULL_NAMES)) {
-      if (fullName.toLowerCase() === normalizedInput) {
-        console.log(`✓ Found exact match: "${input}" → ${symbol}`);
-        return symbol;
-      }
-    }
+  /**
+   * Check the state returned to /callback against the pending login attempt.
+   * The stored state is consumed either way, so a code can only be accepted once.
+   */
+  consumeOAuthState(state: string | null): boolean {
+    const expected = localStorage.getItem(OAUTH_STATE_STORAGE_KEY);
+    localStorage.removeItem(OAUTH_STATE_STORAGE_KEY);
+    return !!state && !!expected && state === expected;
+  }
+
+  /**
+   * Subscribe to session expiry. Returns an unsubscribe function.
+   */
+  onSessionExpired(listener: () => void): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => { this.sessionExpiredListeners.delete(listener); };
+  }
 
-    // Partial match (e.g., "State Bank" matches "State Bank of India")
-    for (const [symbol, fullName] of Object.entries(COMPANY_FULL_NAMES)) {
-      if (fullName.toLowerCase().includes(normalizedInput) ||
-        normalizedInput.includes(fullName.toLowerCase())) {
-        console.log(`✓ Found partial match: "${input}" → ${symbol} (${fullName})`);
-        return symbol;
+  /**
+   * Stream live prices over SSE (/api/stream).
+   * All subscriptions in this tab share as few EventSources as possible, and
+   * the server shares one Upstox socket across tabs. Returns an unsubscribe function.
+   */
+  subscribeLiveQuotes(instrumentKeys: string[], listener: LiveQuoteListener, mode: FeedMode = 'ltpc'): () => void {
+    if (typeof window === 'undefined') return () => {};
+
+    const subscription: LiveSubscription = { keys: new Set(instrumentKeys), mode, listener };
+    this.liveSubscriptions.add(subscription);
+    this.scheduleLiveRefresh();
+
+    return () => {
+      this.liveSubscriptions.delete(subscription);
+      this.scheduleLiveRefresh();
+    };
+  }
+
+  // Batch subscribe/unsubscribe calls made in the same tick into one reconnect
+  private scheduleLiveRefresh() {
+    if (this.liveRefreshPending) return;
+    this.liveRefreshPending = true;
+    setTimeout(() => {
+      this.liveRefreshPending = false;
+      this.refreshLiveSources();
+    }, 0);
+  }
+
+  /**
+   * Reopen the EventSources if the combined instrument set or modes changed
+   */
+  private refreshLiveSources() {
+    const fullKeys = new Set<string>();
+    const allKeys = new Set<string>();
+    this.liveSubscriptions.forEach(s => s.keys.forEach(key => {
+      allKeys.add(key);
+      if (s.mode === 'full') fullKeys.add(key);
+    }));
+
+    const groups: [FeedMode, string[]][] = [
+      ['full', Array.from(fullKeys)],
+      ['ltpc', Array.from(allKeys).filter(key => !fullKeys.has(key))]
+    ];
+
+    const urls: string[] = [];
+    for (const [mode, keys] of groups) {
+      for (let i = 0; i < keys.length; i += MAX_STREAM_INSTRUMENTS) {
+        const batch = keys.slice(i, i + MAX_STREAM_INSTRUMENTS);
+        urls.push(`/api/stream?instruments=${encodeURIComponent(batch.join(','))}&mode=${mode}`);
       }
     }
 
-    // Check if it's already a symbol
-    const upperInput = input.toUpperCase().replace(/[^A-Z0-9&-]/g, '');
-    if (COMPANY_FULL_NAMES[upperInput]) {
-      console.log(`✓ Found symbol match: "${input}" → ${upperInput}`);
-      return upperInput;
+    const signature = urls.join(' ');
+    if (signature === this.liveSourceSignature) return;
+
+    this.closeLiveSources();
+    this.liveSourceSignature = signature;
+    this.liveSources = urls.map(url => this.openLiveSource(url));
+  }
+
+  private openLiveSource(url: string): EventSource {
+    const source = new EventSource(url);
+    const parse = (event: Event) => JSON.parse((event as MessageEvent).data);
+
+    source.addEventListener('tick', (event) => {
+      const tick: LiveTick = parse(event);
+      this.liveSubscriptions.forEach(s => {
+        if (s.keys.has(tick.instrumentKey)) s.listener.onTick(tick);
+      });
+    });
+
+    source.addEventListener('status', (event) => {
+      const { status } = parse(event);
+      this.liveSubscriptions.forEach(s => s.listener.onStatus?.(status));
+    });
+
+    // Fatal for this stream - stop EventSource from reconnecting into the same error
+    source.addEventListener('feed-error', (event) => {
+      const body = parse(event);
+      source.close();
+      const error = toApiError(body.code === 'SESSION_EXPIRED' ? 401 : 502, body);
+      this.liveSubscriptions.forEach(s => s.listener.onError?.(error));
+    });
+
+    // Network drops reconnect automatically; a non-2xx response (e.g. 401) closes for good
+    source.onerror = () => {
+      const status: FeedStatus = source.readyState === EventSource.CLOSED ? 'closed' : 'reconnecting';
+      this.liveSubscriptions.forEach(s => s.listener.onStatus?.(status));
+    };
+
+    return source;
+  }
+
+  private closeLiveSources() {
+    this.liveSources.forEach(source => source.close());
+    this.liveSources = [];
+    this.liveSourceSignature = '';
+  }
+
+  /**
+   * Space out this tab's own calls.
+   * Upstox's quotas are enforced per token on the server (lib/rateLimiter.ts).
+   */
+  private async rateLimitedRequest<T>(requestFn: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const timeSinceLastRequest = now - this.lastRequestTime;
+
+    if (timeSinceLastRequest < this.minRequestInterval) {
+      await new Promise(resolve =>
+        setTimeout(resolve, this.minRequestInterval - timeSinceLastRequest)
+      );
     }
 
-    console.log(`✗ No match found for: "${input}"`);
-    return null;
+    this.lastRequestTime = Date.now();
+    return requestFn();
   }
 
   /**
    * Load instrument master via Next.js API route (server-side, no CORS)
+   * @param exchange A segment (NSE_EQ, BSE_EQ, NSE_INDEX, ...) or an exchange (NSE = its cash segment)
+   * @returns Instruments keyed by upper-cased trading symbol
    */
-  async loadInstruments(exchange: string = 'NSE'): Promise<Record<string, string>> {
+  async loadInstrumentDetails(exchange: string = 'NSE'): Promise<Record<string, Instrument>> {
     if (this.instrumentCache[exchange]) {
       console.log(`✓ Using cached instruments for ${exchange}`);
       return this.instrumentCache[exchange];
@@ -110,18 +397,19 @@ export class UpstoxAPI {
 
     try {
       console.log(`📥 Loading ${exchange} instruments via API route...`);
-      const response = await axios.get(`/api/instruments?exchange=${exchange}`);
-
-      const data = response.data.map || response.data;
-      this.instrumentCache[exchange] = data;
-
-      console.log(`✓ Loaded ${Object.keys(data).length} instrument mappings`);
+      const query = exchange.includes('_') ? `segment=${exchange}` : `exchange=${exchange}`;
+      const response = await this.http.get(`/api/instruments?${query}&format=full`);
 
-      if (response.data.metadata) {
-        console.log('Metadata:', response.data.metadata);
+      const bySymbol: Record<string, Instrument> = {};
+      for (const instrument of response.data.instruments as Instrument[]) {
+        bySymbol[instrument.symbol.toUpperCase()] ??= instrument;
       }
+      this.instrumentCache[exchange] = bySymbol;
 
-      return data;
+      console.log(`✓ Loaded ${Object.keys(bySymbol).length} instruments`);
+      console.log('Metadata:', response.data.metadata);
+
+      return bySymbol;
     } catch (error: any) {
       console.error(`✖ Failed to load instruments: ${error.message}`);
       return {};
@@ -129,77 +417,132 @@ export class UpstoxAPI {
   }
 
   /**
-   * Search for instrument key - supports both symbols and company names
-   * Examples: "SBIN", "State Bank of India", "TCS", "Tata Consultancy Services"
+   * Symbol -> instrument key map for an exchange or segment (see loadInstrumentDetails)
    */
-  async searchSymbol(input: string, exchange: string = 'NSE'): Promise<string | null> {
-    try {
-      // Step 1: Convert company name to symbol if needed
-      let symbol = this.companyNameToSymbol(input);
+  async loadInstruments(exchange: string = 'NSE'): Promise<Record<string, string>> {
+    const details = await this.loadInstrumentDetails(exchange);
+    return Object.fromEntries(Object.values(details).map(i => [i.symbol, i.instrumentKey]));
+  }
 
-      if (!symbol) {
-        // Try as-is if conversion failed
-        symbol = input.toUpperCase().replace(/[^A-Z0-9&-]/g, '');
-      }
+  /**
+   * One instrument's details by trading symbol, or null if the exchange doesn't list it
+   */
+  async getInstrument(symbol: string, exchange: string = 'NSE'): Promise<Instrument | null> {
+    const details = await this.loadInstrumentDetails(exchange);
+    return details[symbol.trim().toUpperCase()] || null;
+  }
+
+  /**
+   * Ranked symbol and company-name matches for a typeahead (no session needed)
+   * @param options.exchange A segment (NSE_EQ, NSE_FO, ...) or an exchange (NSE = all its non-derivative segments)
+   */
+  async searchInstruments(
+    query: string,
+    options: { exchange?: string; limit?: number; signal?: AbortSignal } = {}
+  ): Promise<InstrumentSearchResult[]> {
+    const params: Record<string, string> = { q: query, limit: String(options.limit ?? 10) };
+    if (options.exchange) params[options.exchange.includes('_') ? 'segment' : 'exchange'] = options.exchange;
+
+    const response = await this.http.get('/api/instruments/search', { params, signal: options.signal });
+    return response.data.results;
+  }
+
+  /**
+   * Resolve a company name against the instrument master's name index
+   * Example: "State Bank of India" → SBIN; "Tata" → ambiguous with candidates
+   */
+  async resolveCompanyName(name: string, exchange: string = 'NSE'): Promise<CompanyNameMatch> {
+    const params: Record<string, string> = { name };
+    params[exchange.includes('_') ? 'segment' : 'exchange'] = exchange;
 
-      console.log(`🔍 Searching for: "${input}" → Symbol: ${symbol}`);
+    const response = await this.http.get('/api/instruments', { params });
+    return response.data;
+  }
 
-      // Step 2: Load instruments from JSON
-      const instruments = await this.loadInstruments(exchange);
+  /**
+   * Resolve a symbol or company name to an instrument key
+   * Examples: "SBIN", "State Bank of India", "TCS", "Tata Consultancy Services Ltd"
+   */
+  async resolveSymbol(input: string, exchange: string = 'NSE'): Promise<SymbolResolution> {
+    const symbol = input.toUpperCase().replace(/[^A-Z0-9&-]/g, '');
+    const rawInput = input.trim().toUpperCase();
 
-      // Step 3: Check exact match
-      if (instruments[symbol]) {
-        console.log(`✓ Found ${symbol} in local file:`, instruments[symbol]);
-        return instruments[symbol];
+    try {
+      console.log(`🔍 Searching for: "${input}"`);
+
+      // Step 1: Trading symbol in the instrument master (raw input too - index symbols contain spaces)
+      const instruments = await this.loadInstrumentDetails(exchange);
+      const listed = instruments[rawInput] || instruments[symbol];
+      if (listed) {
+        console.log(`✓ Found ${listed.symbol} in instrument master:`, listed.instrumentKey);
+        return { status: 'found', instrumentKey: listed.instrumentKey, instrument: listed };
       }
 
-      // Step 4: Case-insensitive search
-      for (const [key, value] of Object.entries(instruments)) {
-        if (key.toUpperCase() === symbol.toUpperCase()) {
-          console.log(`✓ Found ${symbol} (case-insensitive):`, value);
-          return value;
-        }
+      // Step 2: Company name - any listed company, not just the curated table
+      const byName = await this.resolveCompanyName(input, exchange).catch((): CompanyNameMatch => ({ status: 'not_found' }));
+      if (byName.status === 'found') {
+        console.log(`✓ "${input}" is ${byName.instrument.symbol} (${byName.instrument.name}):`, byName.instrument.instrumentKey);
+        return { status: 'found', instrumentKey: byName.instrument.instrumentKey, instrument: byName.instrument };
+      }
+      if (byName.status === 'ambiguous') {
+        console.log(`⚠️ "${input}" matches ${byName.candidates.length} companies`);
+        return byName;
+      }
+
+      // Step 3: Ranked search - near-miss symbols; typo matches are only suggestions
+      const [best] = await this.searchInstruments(input, { exchange, limit: 1 }).catch(() => []);
+      if (best && best.match !== 'fuzzy' && best.match !== 'contains') {
+        console.log(`✓ Found ${best.symbol} by ${best.match} search:`, best.instrumentKey);
+        return { status: 'found', instrumentKey: best.instrumentKey, instrument: best };
       }
 
-      // Step 5: Try Upstox API as fallback
-      if (this.accessToken) {
+      // Step 4: Try Upstox API as fallback
+      if (this.authenticated && symbol) {
         console.log(`🔍 ${symbol} not in local file, searching via Upstox API...`);
         const apiResult = await this.searchViaUpstoxAPI(symbol, exchange);
 
         if (apiResult) {
-          instruments[symbol.toUpperCase()] = apiResult;
-          this.instrumentCache[exchange] = instruments;
-          return apiResult;
+          // Remember the probe; the master has nothing more to say about this symbol
+          const probed = probedInstrument(symbol, apiResult);
+          this.instrumentCache[exchange] ??= {};
+          this.instrumentCache[exchange][symbol] = probed;
+          return { status: 'found', instrumentKey: apiResult, instrument: probed };
         }
       }
 
       console.log(`✗ "${input}" (${symbol}): Not found in local file or API`);
-      return null;
+      return { status: 'not_found' };
     } catch (error: any) {
       console.error(`Search failed for "${input}":`, error.message);
-      return null;
+      return { status: 'not_found' };
     }
   }
 
+  /**
+   * Instrument key for a symbol or company name, or null when it's unknown or ambiguous
+   */
+  async searchSymbol(input: string, exchange: string = 'NSE'): Promise<string | null> {
+    const resolution = await this.resolveSymbol(input, exchange);
+    return resolution.status === 'found' ? resolution.instrumentKey : null;
+  }
+
   /**
    * Search via Upstox API
    */
   private async searchViaUpstoxAPI(symbol: string, exchange: string = 'NSE'): Promise<string | null> {
-    if (!this.accessToken) {
-      console.warn('No access token - cannot search via API');
+    if (!this.authenticated) {
+      console.warn('Not authenticated - cannot search via API');
       return null;
     }
 
     try {
-      const symbolKey = `${exchange}_EQ|${symbol.toUpperCase()}`;
+      const segment = exchange.includes('_') ? exchange : `${exchange}_EQ`;
+      const symbolKey = `${segment}|${symbol.toUpperCase()}`;
       // Use proxy route to avoid CORS
       const url = `/api/quotes?instruments=${encodeURIComponent(symbolKey)}&type=ltp`;
 
-      const response = await axios.get(url, {
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-          'Accept': 'application/json'
-        }
+      const response = await this.http.get(url, {
+        headers: { 'Accept': 'application/json' }
       });
 
       if (response.data.data && response.data.data[symbolKey]) {
@@ -210,7 +553,7 @@ export class UpstoxAPI {
 
       return null;
     } catch (error: any) {
-      if (error.response?.status === 400 || error.response?.status === 404) {
+      if (error instanceof ApiError && (error.status === 400 || error.status === 404)) {
         console.log(`✗ ${symbol} not found via API`);
         return null;
       }
@@ -221,435 +564,392 @@ export class UpstoxAPI {
   }
 
   /**
-   * Get Top Gainers - Calculate from market data (Upstox has no direct API)
-   * Uses Nifty 500 universe and calculates % change from previous close
+   * Run a screener spec (lib/screener.ts): candles for the universe come from one
+   * /api/historical/batch run, today's bar included, and are ranked here.
+   * Instruments that fail or lack enough history are left out.
    */
-  async getTopGainers(limit: number = 50): Promise<string[]> {
-    if (!this.accessToken) {
-      throw new Error('No access token available');
-    }
+  async runScreener(
+    spec: ScreenerSpec,
+    options: { onProgress?: (done: number, total: number) => void } = {}
+  ): Promise<ScreenerResult> {
+    if (!this.authenticated) {
+      throw this.notAuthenticated();
+    }
+
+    const issues = screenerSpecIssues(spec);
+    if (issues.length) {
+      throw new Error(`Invalid screen: ${issues.join('; ')}`);
+    }
+
+    const { instruments: universe, listed } = await this.screenerUniverse(spec.universe);
+    if (universe.length === 0) {
+      return { spec, matches: [], listed, scanned: 0, failed: 0 };
+    }
+
+    console.log(`📊 Screening ${universe.length} of ${listed} stocks: ${describeScreenerSpec(spec)}`);
+
+    const { fromDate, toDate } = screenerDateRange(spec);
+    const matches: ScreenerMatch[] = [];
+    let done = 0;
+
+    const summary = await this.getHistoricalBatch(
+      universe.map(u => u.instrumentKey),
+      spec.lookbackUnit,
+      '1',
+      toDate,
+      fromDate,
+      {
+        includeToday: true,
+        onResult: (result) => {
+          options.onProgress?.(++done, universe.length);
+          if (result.status !== 'ok') return;
+          const match = screenInstrument(spec, universe[result.index], result.candles);
+          if (match) matches.push(match);
+        }
+      }
+    );
 
-    try {
-      // Since there's no direct API, fetch from a stock universe
-      // Using Nifty 500 as the universe (you can adjust this)
-      const instruments = await this.loadInstruments('NSE');
-      const symbols = Object.keys(instruments).slice(0, 500); // Get first 500 stocks
-
-      console.log(`📊 Calculating top gainers from ${symbols.length} stocks...`);
-
-      // Fetch quotes in batches of 100 (API limit)
-      const quotes = await this.getBatchQuotes(symbols.map(s => instruments[s]));
-
-      // Calculate % change and sort
-      const stockChanges = Object.entries(quotes)
-        .map(([key, data]: [string, any]) => {
-          const symbol = key.split('|')[1] || key.split(':')[1];
-          const ltp = data.last_price || data.ltp;
-          const prevClose = data.ohlc?.close || data.close || data.prev_close;
-
-          if (!prevClose || prevClose === 0) return null;
-
-          const change = ((ltp - prevClose) / prevClose) * 100;
-          return { symbol, change, ltp, prevClose };
-        })
-        .filter(item => item !== null && item.change > 0) // Only gainers
-        .sort((a, b) => (b?.change || 0) - (a?.change || 0)) // Sort descending
-        .slice(0, limit)
-        .map(item => item!.symbol);
-
-      console.log(`✓ Fetched ${stockChanges.length} top gainers`);
-      return stockChanges;
-    } catch (error: any) {
-      console.error('Failed to fetch top gainers:', error.message);
-      // Fallback to Nifty 50 if calculation fails
-      console.log('⚠️ Falling back to Nifty 50 stocks');
-      return ['RELIANCE', 'TCS', 'HDFCBANK', 'INFY', 'ICICIBANK', 'HINDUNILVR', 'ITC', 'SBIN', 'BHARTIARTL', 'KOTAKBANK', 'BAJFINANCE', 'LT', 'ASIANPAINT', 'AXISBANK', 'MARUTI', 'TITAN', 'SUNPHARMA', 'ULTRACEMCO', 'NESTLEIND', 'WIPRO', 'HCLTECH', 'TECHM', 'POWERGRID', 'NTPC', 'BAJAJFINSV', 'M&M', 'ONGC', 'TATASTEEL', 'ADANIPORTS', 'JSWSTEEL', 'INDUSINDBK', 'GRASIM', 'TATAMOTORS', 'DIVISLAB', 'DRREDDY', 'BRITANNIA', 'CIPLA', 'EICHERMOT', 'HINDALCO', 'BPCL', 'COALINDIA', 'HEROMOTOCO', 'UPL', 'SHREECEM', 'APOLLOHOSP', 'SBILIFE', 'BAJAJ-AUTO', 'ADANIENT', 'HDFCLIFE', 'TATACONSUM'];
-    }
+    const ranked = rankMatches(spec, matches);
+    console.log(`✓ Screener matched ${matches.length} of ${universe.length}, kept ${ranked.length}`);
+    return { spec, matches: ranked, listed, scanned: universe.length, failed: summary.failed };
   }
 
   /**
-   * Get Top Losers - Calculate from market data
+   * Symbols and instrument keys a screener universe covers, and how many stocks
+   * it has before the per-run cap. An exchange universe is its MAX_SCREENER_UNIVERSE
+   * most-traded equities by today's turnover (volume x average price).
+   * Index members resolve on NSE; symbols the master doesn't list are skipped.
    */
-  async getTopLosers(limit: number = 50): Promise<string[]> {
-    if (!this.accessToken) {
-      throw new Error('No access token available');
-    }
-
-    try {
-      const instruments = await this.loadInstruments('NSE');
-      const symbols = Object.keys(instruments).slice(0, 500);
-
-      console.log(`📊 Calculating top losers from ${symbols.length} stocks...`);
-
-      const quotes = await this.getBatchQuotes(symbols.map(s => instruments[s]));
-
-      const stockChanges = Object.entries(quotes)
-        .map(([key, data]: [string, any]) => {
-          const symbol = key.split('|')[1] || key.split(':')[1];
-          const ltp = data.last_price || data.ltp;
-          const prevClose = data.ohlc?.close || data.close || data.prev_close;
-
-          if (!prevClose || prevClose === 0) return null;
-
-          const change = ((ltp - prevClose) / prevClose) * 100;
-          return { symbol, change, ltp, prevClose };
-        })
-        .filter(item => item !== null && item.change < 0) // Only losers
-        .sort((a, b) => (a?.change || 0) - (b?.change || 0)) // Sort ascending (most negative first)
-        .slice(0, limit)
-        .map(item => item!.symbol);
+  private async screenerUniverse(
+    universe: ScreenerUniverse
+  ): Promise<{ instruments: Array<{ symbol: string; instrumentKey: string }>; listed: number }> {
+    if (universe === 'NSE' || universe === 'BSE') {
+      const instruments = await this.loadInstruments(universe);
+      const listed = Object.entries(instruments).map(([symbol, instrumentKey]) => ({ symbol, instrumentKey }));
+      if (listed.length <= MAX_SCREENER_UNIVERSE) return { instruments: listed, listed: listed.length };
+
+      // Quotes come back keyed by symbol; instrument_token is the instrument key
+      const response = await this.fetchQuotes(listed.map(i => i.instrumentKey), 'full');
+      const turnover: Record<string, number> = {};
+      Object.values(response.data || {}).forEach((quote: any) => {
+        if (quote?.instrument_token) {
+          turnover[quote.instrument_token] = (quote.volume || 0) * (quote.average_price || quote.last_price || 0);
+        }
+      });
 
-      console.log(`✓ Fetched ${stockChanges.length} top losers`);
-      return stockChanges;
-    } catch (error: any) {
-      console.error('Failed to fetch top losers:', error.message);
-      console.log('⚠️ Falling back to Nifty 50 stocks');
-      return ['RELIANCE', 'TCS', 'HDFCBANK', 'INFY', 'ICICIBANK', 'HINDUNILVR', 'ITC', 'SBIN', 'BHARTIARTL', 'KOTAKBANK', 'BAJFINANCE', 'LT', 'ASIANPAINT', 'AXISBANK', 'MARUTI', 'TITAN', 'SUNPHARMA', 'ULTRACEMCO', 'NESTLEIND', 'WIPRO', 'HCLTECH', 'TECHM', 'POWERGRID', 'NTPC', 'BAJAJFINSV', 'M&M', 'ONGC', 'TATASTEEL', 'ADANIPORTS', 'JSWSTEEL', 'INDUSINDBK', 'GRASIM', 'TATAMOTORS', 'DIVISLAB', 'DRREDDY', 'BRITANNIA', 'CIPLA', 'EICHERMOT', 'HINDALCO', 'BPCL', 'COALINDIA', 'HEROMOTOCO', 'UPL', 'SHREECEM', 'APOLLOHOSP', 'SBILIFE', 'BAJAJ-AUTO', 'ADANIENT', 'HDFCLIFE', 'TATACONSUM'];
+      const mostTraded = listed
+        .sort((a, b) => (turnover[b.instrumentKey] || 0) - (turnover[a.instrumentKey] || 0))
+        .slice(0, MAX_SCREENER_UNIVERSE);
+      return { instruments: mostTraded, listed: listed.length };
     }
+
+    const instruments = await this.loadInstruments('NSE');
+    const members = currentConstituents(universe);
+    return {
+      instruments: members
+        .filter(symbol => instruments[symbol])
+        .map(symbol => ({ symbol, instrumentKey: instruments[symbol] })),
+      listed: members.length
+    };
   }
 
   /**
-   * Get Top Weekly Gainers - Calculate from weekly historical data
-   * Uses Nifty 200 universe and calculates % change over the past week
+   * Quotes for any number of instruments.
+   * POSTs the whole list - /api/quotes splits it into Upstox-sized batches.
    */
-  async getWeeklyGainers(limit: number = 50): Promise<string[]> {
-    if (!this.accessToken) {
-      throw new Error('No access token available');
-    }
-
-    try {
-      const instruments = await this.loadInstruments('NSE');
-      const symbols = Object.keys(instruments).slice(0, 200); // Use top 200 for performance
-
-      console.log(`📊 Calculating weekly gainers from ${symbols.length} stocks...`);
-
-      const toDate = new Date().toISOString().split('T')[0];
-      const fromDate = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]; // 2 weeks back
-
-      const stockChanges: Array<{ symbol: string, change: number }> = [];
-
-      // Process in batches to avoid rate limiting
-      for (let i = 0; i < symbols.length; i += 10) {
-        const batch = symbols.slice(i, i + 10);
-
-        const batchPromises = batch.map(async (symbol) => {
-          try {
-            const instrumentKey = instruments[symbol];
-            const data = await this.rateLimitedRequest(() =>
-              this.getHistoricalData(instrumentKey, 'weeks', '1', toDate, fromDate)
-            );
-
-            if (data.data?.candles?.length >= 2) {
-              const candles = data.data.candles;
-              const latestClose = candles[0][4];
-              const previousClose = candles[1][4];
-              const change = ((latestClose - previousClose) / previousClose) * 100;
-              return { symbol, change };
-            }
-            return null;
-          } catch (e) {
-            return null;
-          }
-        });
-
-        const results = await Promise.all(batchPromises);
-        results.forEach(r => { if (r && r.change > 0) stockChanges.push(r); });
-
-        // Small delay between batches
-        await new Promise(r => setTimeout(r, 200));
-      }
+  private async fetchQuotes(instrumentKeys: string[], type: 'full' | 'ltp' | 'ohlc') {
+    const response = await this.rateLimitedRequest(() =>
+      this.http.post('/api/quotes', { instruments: instrumentKeys, type }, {
+        headers: { 'Accept': 'application/json' }
+      })
+    );
 
-      const sorted = stockChanges
-        .sort((a, b) => b.change - a.change)
-        .slice(0, limit)
-        .map(item => item.symbol);
-
-      console.log(`✓ Found ${sorted.length} weekly gainers`);
-      return sorted;
-    } catch (error: any) {
-      console.error('Failed to fetch weekly gainers:', error.message);
-      return this.getFallbackStocks();
+    if (response.data.missing?.length) {
+      console.warn(`⚠️ No quote for ${response.data.missing.length} instrument(s):`, response.data.missing.slice(0, 10));
     }
+
+    return response.data;
   }
 
   /**
-   * Get Top Weekly Losers - Calculate from weekly historical data
+   * NSE and BSE listings for symbols, instrument keys or ISINs (no session needed)
+   * @returns Listings keyed by the id as given; null for ids that aren't listed equities
    */
-  async getWeeklyLosers(limit: number = 50): Promise<string[]> {
-    if (!this.accessToken) {
-      throw new Error('No access token available');
-    }
-
-    try {
-      const instruments = await this.loadInstruments('NSE');
-      const symbols = Object.keys(instruments).slice(0, 200);
-
-      console.log(`📊 Calculating weekly losers from ${symbols.length} stocks...`);
-
-      const toDate = new Date().toISOString().split('T')[0];
-      const fromDate = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-
-      const stockChanges: Array<{ symbol: string, change: number }> = [];
-
-      for (let i = 0; i < symbols.length; i += 10) {
-        const batch = symbols.slice(i, i + 10);
-
-        const batchPromises = batch.map(async (symbol) => {
-          try {
-            const instrumentKey = instruments[symbol];
-            const data = await this.rateLimitedRequest(() =>
-              this.getHistoricalData(instrumentKey, 'weeks', '1', toDate, fromDate)
-            );
-
-            if (data.data?.candles?.length >= 2) {
-              const candles = data.data.candles;
-              const latestClose = candles[0][4];
-              const previousClose = candles[1][4];
-              const change = ((latestClose - previousClose) / previousClose) * 100;
-              return { symbol, change };
-            }
-            return null;
-          } catch (e) {
-            return null;
-          }
-        });
-
-        const results = await Promise.all(batchPromises);
-        results.forEach(r => { if (r && r.change < 0) stockChanges.push(r); });
-
-        await new Promise(r => setTimeout(r, 200));
-      }
+  async getCrossListings(ids: string[]): Promise<Record<string, CrossListing | null>> {
+    if (ids.length === 0) return {};
+    const response = await this.http.post('/api/instruments/cross-listing', { ids });
+    return response.data.listings;
+  }
 
-      const sorted = stockChanges
-        .sort((a, b) => a.change - b.change) // Most negative first
-        .slice(0, limit)
-        .map(item => item.symbol);
+  /**
+   * Side-by-side NSE/BSE price and volume for each instrument's company.
+   * Instruments that aren't listed equities are left out.
+   */
+  async compareExchanges(instrumentKeys: string[]): Promise<Record<string, ExchangeComparison>> {
+    if (!this.authenticated) {
+      throw this.notAuthenticated();
+    }
+
+    const listings = await this.getCrossListings(instrumentKeys);
+    const listed = Object.entries(listings).filter((entry): entry is [string, CrossListing] => !!entry[1]);
+    const quoteKeys = listed.flatMap(([, l]) => [l.nse?.instrumentKey, l.bse?.instrumentKey])
+      .filter((k): k is string => !!k);
+    if (quoteKeys.length === 0) return {};
+
+    // Quotes come back keyed by symbol; instrument_token is the instrument key
+    const response = await this.fetchQuotes(quoteKeys, 'full');
+    const byKey: Record<string, any> = {};
+    Object.values(response.data || {}).forEach((quote: any) => {
+      if (quote?.instrument_token) byKey[quote.instrument_token] = quote;
+    });
 
-      console.log(`✓ Found ${sorted.length} weekly losers`);
-      return sorted;
-    } catch (error: any) {
-      console.error('Failed to fetch weekly losers:', error.message);
-      return this.getFallbackStocks();
-    }
+    const side = (instrument: Instrument | null): ExchangeQuote | null => instrument && {
+      instrumentKey: instrument.instrumentKey,
+      symbol: instrument.symbol,
+      price: byKey[instrument.instrumentKey]?.last_price ?? null,
+      volume: byKey[instrument.instrumentKey]?.volume ?? null
+    };
+
+    const comparisons: Record<string, ExchangeComparison> = {};
+    for (const [key, listing] of listed) {
+      const nse = side(listing.nse);
+      const bse = side(listing.bse);
+      const nsePrice = nse?.price ?? null;
+      const bsePrice = bse?.price ?? null;
+      const spread = nsePrice !== null && bsePrice !== null ? +(nsePrice - bsePrice).toFixed(2) : null;
+      comparisons[key] = {
+        isin: listing.isin,
+        nse,
+        bse,
+        spread,
+        spreadPercent: spread !== null && bsePrice ? +((spread / bsePrice) * 100).toFixed(3) : null
+      };
+    }
+    return comparisons;
   }
 
   /**
-   * Get Top Monthly Gainers - Calculate from monthly historical data
+   * Get holdings from Upstox for the active profile, a named profile, or 'all' profiles combined
    */
-  async getMonthlyGainers(limit: number = 50): Promise<string[]> {
-    if (!this.accessToken) {
-      throw new Error('No access token available');
+  async getHoldings(profile?: string): Promise<string[]> {
+    if (!this.authenticated) {
+      throw this.notAuthenticated();
     }
 
     try {
-      const instruments = await this.loadInstruments('NSE');
-      const symbols = Object.keys(instruments).slice(0, 200);
-
-      console.log(`📊 Calculating monthly gainers from ${symbols.length} stocks...`);
-
-      const toDate = new Date().toISOString().split('T')[0];
-      const fromDate = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]; // 2 months back
-
-      const stockChanges: Array<{ symbol: string, change: number }> = [];
-
-      for (let i = 0; i < symbols.length; i += 10) {
-        const batch = symbols.slice(i, i + 10);
-
-        const batchPromises = batch.map(async (symbol) => {
-          try {
-            const instrumentKey = instruments[symbol];
-            const data = await this.rateLimitedRequest(() =>
-              this.getHistoricalData(instrumentKey, 'months', '1', toDate, fromDate)
-            );
-
-            if (data.data?.candles?.length >= 2) {
-              const candles = data.data.candles;
-              const latestClose = candles[0][4];
-              const previousClose = candles[1][4];
-              const change = ((latestClose - previousClose) / previousClose) * 100;
-              return { symbol, change };
-            }
-            return null;
-          } catch (e) {
-            return null;
-          }
-        });
-
-        const results = await Promise.all(batchPromises);
-        results.forEach(r => { if (r && r.change > 0) stockChanges.push(r); });
-
-        await new Promise(r => setTimeout(r, 200));
-      }
+      // Use proxy route - the session cookie carries the tokens
+      const url = profile ? `/api/holdings?profile=${encodeURIComponent(profile)}` : '/api/holdings';
+
+      const response = await this.http.get(url, {
+        headers: { 'Accept': 'application/json' }
+      });
+
+      (response.data.errors || []).forEach((e: any) =>
+        console.warn(`⚠️ Holdings unavailable for profile ${e.profile}: ${e.error}`)
+      );
 
-      const sorted = stockChanges
-        .sort((a, b) => b.change - a.change)
-        .slice(0, limit)
-        .map(item => item.symbol);
+      const holdings = response.data.data || [];
+      // The same stock held in several accounts appears once
+      const symbols: string[] = Array.from(new Set(holdings.map((h: any) => h.trading_symbol).filter(Boolean)));
 
-      console.log(`✓ Found ${sorted.length} monthly gainers`);
-      return sorted;
+      console.log(`✓ Fetched ${symbols.length} holdings`);
+      return symbols;
     } catch (error: any) {
-      console.error('Failed to fetch monthly gainers:', error.message);
-      return this.getFallbackStocks();
+      console.error('Failed to fetch holdings:', error.message);
+      return [];
     }
   }
 
   /**
-   * Get Top Monthly Losers - Calculate from monthly historical data
+   * Fetch historical candle data using V3 API
    */
-  async getMonthlyLosers(limit: number = 50): Promise<string[]> {
-    if (!this.accessToken) {
-      throw new Error('No access token available');
+  async getHistoricalData(
+    instrumentKey: string,
+    unit: string,
+    interval: string,
+    toDate: string,
+    fromDate: string,
+    options: { includeToday?: boolean } = {}
+  ) {
+    if (!this.authenticated) {
+      throw this.notAuthenticated();
     }
 
-    try {
-      const instruments = await this.loadInstruments('NSE');
-      const symbols = Object.keys(instruments).slice(0, 200);
-
-      console.log(`📊 Calculating monthly losers from ${symbols.length} stocks...`);
-
-      const toDate = new Date().toISOString().split('T')[0];
-      const fromDate = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-
-      const stockChanges: Array<{ symbol: string, change: number }> = [];
-
-      for (let i = 0; i < symbols.length; i += 10) {
-        const batch = symbols.slice(i, i + 10);
-
-        const batchPromises = batch.map(async (symbol) => {
-          try {
-            const instrumentKey = instruments[symbol];
-            const data = await this.rateLimitedRequest(() =>
-              this.getHistoricalData(instrumentKey, 'months', '1', toDate, fromDate)
-            );
-
-            if (data.data?.candles?.length >= 2) {
-              const candles = data.data.candles;
-              const latestClose = candles[0][4];
-              const previousClose = candles[1][4];
-              const change = ((latestClose - previousClose) / previousClose) * 100;
-              return { symbol, change };
-            }
-            return null;
-          } catch (e) {
-            return null;
-          }
-        });
-
-        const results = await Promise.all(batchPromises);
-        results.forEach(r => { if (r && r.change < 0) stockChanges.push(r); });
-
-        await new Promise(r => setTimeout(r, 200));
-      }
+    // Use proxy route to avoid CORS issues
+    let url = `/api/historical?instrumentKey=${encodeURIComponent(instrumentKey)}&unit=${unit}&interval=${interval}&toDate=${toDate}&fromDate=${fromDate}`;
+    // Appends today's still-forming candle(s); see meta.provisional
+    if (options.includeToday) url += '&includeToday=true';
 
-      const sorted = stockChanges
-        .sort((a, b) => a.change - b.change)
-        .slice(0, limit)
-        .map(item => item.symbol);
+    const response = await this.http.get(url, {
+      headers: { 'Accept': 'application/json' }
+    });
 
-      console.log(`✓ Found ${sorted.length} monthly losers`);
-      return sorted;
-    } catch (error: any) {
-      console.error('Failed to fetch monthly losers:', error.message);
-      return this.getFallbackStocks();
-    }
+    return response.data;
   }
 
   /**
-   * Fallback stocks list (Nifty 50) when API calls fail
+   * Historical candles for many instruments in server-side runs (/api/historical/batch),
+   * MAX_BATCH_INSTRUMENTS per call. onResult fires as each instrument finishes, in
+   * completion order, with `index` into instrumentKeys.
+   * Resolves with the combined summary; rejects with an AuthError if the session dies mid-run.
    */
-  private getFallbackStocks(): string[] {
-    console.log('⚠️ Falling back to Nifty 50 stocks');
-    return ['RELIANCE', 'TCS', 'HDFCBANK', 'INFY', 'ICICIBANK', 'HINDUNILVR', 'ITC', 'SBIN', 'BHARTIARTL', 'KOTAKBANK', 'BAJFINANCE', 'LT', 'ASIANPAINT', 'AXISBANK', 'MARUTI', 'TITAN', 'SUNPHARMA', 'ULTRACEMCO', 'NESTLEIND', 'WIPRO', 'HCLTECH', 'TECHM', 'POWERGRID', 'NTPC', 'BAJAJFINSV', 'M&M', 'ONGC', 'TATASTEEL', 'ADANIPORTS', 'JSWSTEEL', 'INDUSINDBK', 'GRASIM', 'TATAMOTORS', 'DIVISLAB', 'DRREDDY', 'BRITANNIA', 'CIPLA', 'EICHERMOT', 'HINDALCO', 'BPCL', 'COALINDIA', 'HEROMOTOCO', 'UPL', 'SHREECEM', 'APOLLOHOSP', 'SBILIFE', 'BAJAJ-AUTO', 'ADANIENT', 'HDFCLIFE', 'TATACONSUM'];
+  async getHistoricalBatch(
+    instrumentKeys: string[],
+    unit: string,
+    interval: string,
+    toDate: string,
+    fromDate: string,
+    options: { includeToday?: boolean; onResult: (result: HistoricalBatchResult) => void }
+  ): Promise<HistoricalBatchSummary> {
+    if (!this.authenticated) {
+      throw this.notAuthenticated();
+    }
+
+    const summary: HistoricalBatchSummary = { total: 0, succeeded: 0, failed: 0, elapsedMs: 0 };
+
+    for (let offset = 0; offset < instrumentKeys.length; offset += MAX_BATCH_INSTRUMENTS) {
+      const part = await this.streamHistoricalBatch(
+        instrumentKeys.slice(offset, offset + MAX_BATCH_INSTRUMENTS),
+        unit,
+        interval,
+        toDate,
+        fromDate,
+        {
+          includeToday: options.includeToday,
+          onResult: result => options.onResult({ ...result, index: result.index + offset })
+        }
+      );
+      summary.total += part.total;
+      summary.succeeded += part.succeeded;
+      summary.failed += part.failed;
+      summary.elapsedMs += part.elapsedMs;
+    }
+
+    return summary;
   }
 
   /**
-   * Get batch quotes for multiple instruments (max 100 per request)
+   * One /api/historical/batch call, read as its NDJSON stream arrives
    */
-  private async getBatchQuotes(instrumentKeys: string[]): Promise<Record<string, any>> {
-    const batches = [];
-    for (let i = 0; i < instrumentKeys.length; i += 100) {
-      batches.push(instrumentKeys.slice(i, i + 100));
+  private async streamHistoricalBatch(
+    instrumentKeys: string[],
+    unit: string,
+    interval: string,
+    toDate: string,
+    fromDate: string,
+    options: { includeToday?: boolean; onResult: (result: HistoricalBatchResult) => void }
+  ): Promise<HistoricalBatchSummary> {
+    // fetch rather than axios - axios can't read a streamed body in the browser
+    const response = await fetch('/api/historical/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        instruments: instrumentKeys,
+        unit,
+        interval,
+        toDate,
+        fromDate,
+        includeToday: !!options.includeToday
+      })
+    });
+
+    if (!response.ok || !response.body) {
+      throw this.streamError(response.status, await response.json().catch(() => null));
     }
 
-    const results: Record<string, any> = {};
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
 
-    for (const batch of batches) {
-      try {
-        // Use proxy route to avoid CORS
-        const url = `/api/quotes?instruments=${batch.join(',')}&type=full`;
+    for (let finished = false; !finished;) {
+      const chunk = await reader.read();
+      finished = chunk.done;
+      buffered += finished ? decoder.decode() : decoder.decode(chunk.value, { stream: true });
 
-        const response = await this.rateLimitedRequest(() =>
-          axios.get(url, {
-            headers: {
-              'Authorization': `Bearer ${this.accessToken}`,
-              'Accept': 'application/json'
-            }
-          })
-        );
+      const lines = buffered.split('\n');
+      buffered = finished ? '' : lines.pop()!;
 
-        if (response.data.data) {
-          Object.assign(results, response.data.data);
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const { type, ...message } = JSON.parse(line);
+
+        if (type === 'result') {
+          options.onResult(message as HistoricalBatchResult);
+        } else if (type === 'done') {
+          return message as HistoricalBatchSummary;
+        } else if (type === 'error') {
+          reader.cancel().catch(() => {});
+          throw this.streamError(message.code === 'SESSION_EXPIRED' ? 401 : 500, message);
         }
-      } catch (error: any) {
-        console.error('Batch quote error:', error.message);
       }
     }
 
-    return results;
+    throw new Error('Batch stream ended before the run finished');
   }
 
   /**
-   * Get user's holdings from Upstox
+   * Typed error for a fetch()-based route, expiring the session like the axios interceptor
    */
-  async getHoldings(): Promise<string[]> {
-    if (!this.accessToken) {
-      throw new Error('No access token available');
+  private streamError(status: number, data: unknown): ApiError {
+    const error = toApiError(status, data);
+    if (error instanceof AuthError && this.authenticated) {
+      this.expireSession();
     }
+    return error;
+  }
 
-    try {
-      const url = 'https://api.upstox.com/v2/portfolio/long-term-holdings';
+  /**
+   * Proxy health and metrics for the diagnostics panel (no session needed)
+   */
+  async getDiagnostics(): Promise<{
+    health: HealthReport;
+    metrics: MetricsSnapshot;
+    rateLimit: RateLimiterState | null; // active profile's quota; null when logged out
+  }> {
+    const [health, metrics, rateLimit] = await Promise.all([
+      this.http.get('/api/health'),
+      this.http.get('/api/metrics'),
+      this.authenticated ? this.http.get('/api/rate-limit') : Promise.resolve(null)
+    ]);
+    return { health: health.data, metrics: metrics.data, rateLimit: rateLimit?.data ?? null };
+  }
 
-      const response = await axios.get(url, {
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-          'Accept': 'application/json'
-        }
-      });
+  /**
+   * Expiry dates (YYYY-MM-DD, ascending) with options listed on an underlying
+   */
+  async getOptionExpiries(underlyingKey: string): Promise<string[]> {
+    if (!this.authenticated) {
+      throw this.notAuthenticated();
+    }
 
-      const holdings = response.data.data || [];
-      const symbols = holdings.map((h: any) => h.trading_symbol).filter(Boolean);
+    const response = await this.http.get('/api/options/expiries', { params: { underlying: underlyingKey } });
+    return response.data.data.expiries;
+  }
 
-      console.log(`✓ Fetched ${symbols.length} holdings`);
-      return symbols;
-    } catch (error: any) {
-      console.error('Failed to fetch holdings:', error.message);
-      return [];
+  /**
+   * Calls and puts by strike for one expiry, with IV, Greeks, PCR and max pain
+   */
+  async getOptionChain(underlyingKey: string, expiry: string): Promise<OptionChain> {
+    if (!this.authenticated) {
+      throw this.notAuthenticated();
     }
+
+    const response = await this.http.get('/api/options/chain', { params: { underlying: underlyingKey, expiry } });
+    return response.data.data;
   }
 
   /**
-   * Fetch historical candle data using V3 API
+   * Get the current session's candles (provisional, never cached)
    */
-  async getHistoricalData(
-    instrumentKey: string,
-    unit: string,
-    interval: string,
-    toDate: string,
-    fromDate: string
-  ) {
-    if (!this.accessToken) {
-      throw new Error('No access token available');
+  async getIntradayData(instrumentKey: string, unit: string = 'minutes', interval: string = '1') {
+    if (!this.authenticated) {
+      throw this.notAuthenticated();
     }
 
-    // Use proxy route to avoid CORS issues
-    const url = `/api/historical?instrumentKey=${encodeURIComponent(instrumentKey)}&unit=${unit}&interval=${interval}&toDate=${toDate}&fromDate=${fromDate}`;
+    const url = `/api/intraday?instrumentKey=${encodeURIComponent(instrumentKey)}&unit=${unit}&interval=${interval}`;
 
-    const response = await axios.get(url, {
-      headers: {
-        'Authorization': `Bearer ${this.accessToken}`,
-        'Accept': 'application/json'
-      }
+    const response = await this.http.get(url, {
+      headers: { 'Accept': 'application/json' }
     });
 
     return response.data;
@@ -659,63 +959,33 @@ export class UpstoxAPI {
    * Get market quote for instrument keys using V3 API
    */
   async getMarketQuote(instrumentKeys: string[]) {
-    if (!this.accessToken) {
-      throw new Error('No access token available');
+    if (!this.authenticated) {
+      throw this.notAuthenticated();
     }
 
-    // Use proxy route to avoid CORS issues
-    const url = `/api/quotes?instruments=${instrumentKeys.join(',')}&type=full`;
-
-    const response = await axios.get(url, {
-      headers: {
-        'Authorization': `Bearer ${this.accessToken}`,
-        'Accept': 'application/json'
-      }
-    });
-
-    return response.data;
+    return this.fetchQuotes(instrumentKeys, 'full');
   }
 
   /**
    * Get LTP (Last Traded Price) using V3 API
    */
   async getLTP(instrumentKeys: string[]) {
-    if (!this.accessToken) {
-      throw new Error('No access token available');
+    if (!this.authenticated) {
+      throw this.notAuthenticated();
     }
 
-    // Use proxy route to avoid CORS issues
-    const url = `/api/quotes?instruments=${instrumentKeys.join(',')}&type=ltp`;
-
-    const response = await axios.get(url, {
-      headers: {
-        'Authorization': `Bearer ${this.accessToken}`,
-        'Accept': 'application/json'
-      }
-    });
-
-    return response.data;
+    return this.fetchQuotes(instrumentKeys, 'ltp');
   }
 
   /**
    * Get full market quote for multiple instruments (batch)
    */
   async getFullMarketQuote(instrumentKeys: string[]) {
-    if (!this.accessToken) {
-      throw new Error('No access token available');
+    if (!this.authenticated) {
+      throw this.notAuthenticated();
     }
 
-    // Use proxy route to avoid CORS issues
-    const url = `/api/quotes?instruments=${instrumentKeys.join(',')}&type=full`;
-
-    const response = await axios.get(url, {
-      headers: {
-        'Authorization': `Bearer ${this.accessToken}`,
-        'Accept': 'application/json'
-      }
-    });
-
-    return response.data;
+    return this.fetchQuotes(instrumentKeys, 'full');
   }
 }
 
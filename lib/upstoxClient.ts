@@ -0,0 +1,193 @@
+import axios, { AxiosError, AxiosResponse, Method } from 'axios';
+import { NextRequest } from 'next/server';
+import { ApiErrorCode } from './apiErrors';
+import { classifyOutcome, recordUpstreamCall } from './metrics';
+import { acquireUpstoxSlot } from './rateLimiter';
+import { sessionExpiredResponse } from './session';
+import { errorResponse } from './validation';
+
+/**
+ * Server-side HTTP client for the Upstox API.
+ * Every proxy route goes through upstoxRequest so retries, timeouts,
+ * logging and error mapping behave the same everywhere.
+ */
+
+// Point at scripts/mock-upstox-server.js (or any compatible host) for offline work
+export const UPSTOX_BASE_URL = (process.env.UPSTOX_API_BASE_URL || 'https://api.upstox.com').replace(/\/+$/, '');
+
+export type UpstoxEndpoint = 'historical' | 'intraday' | 'quotes' | 'options' | 'holdings' | 'feed' | 'logout' | 'token';
+
+// Historical pulls can be large; everything else should answer quickly
+const ENDPOINT_TIMEOUTS: Record<UpstoxEndpoint, number> = {
+  historical: 30000,
+  intraday: 15000,
+  quotes: 15000,
+  options: 15000,
+  holdings: 15000,
+  feed: 10000,
+  logout: 10000,
+  token: 15000
+};
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+const MAX_RETRY_AFTER_MS = 30000;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export interface UpstoxRequestOptions {
+  endpoint: UpstoxEndpoint;
+  path: string; // e.g. /v3/historical-candle/...
+  method?: Method;
+  accessToken?: string;
+  params?: Record<string, string>;
+  data?: any;
+  headers?: Record<string, string>;
+  maxRetries?: number; // defaults to 3 for GET/DELETE, 0 otherwise
+}
+
+function isRetryable(error: AxiosError): boolean {
+  // Network failures and timeouts have no response
+  if (!error.response) return true;
+  return RETRYABLE_STATUSES.has(error.response.status);
+}
+
+/**
+ * Parse Retry-After (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: unknown): number | null {
+  if (typeof header !== 'string' || !header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return null;
+}
+
+/**
+ * Exponential backoff with jitter, unless Upstox told us how long to wait
+ */
+function retryDelay(attempt: number, error: AxiosError): number {
+  const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+  if (retryAfter !== null) return Math.min(retryAfter, MAX_RETRY_AFTER_MS);
+
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Call the Upstox API with retry, backoff and per-endpoint timeouts.
+ * Authenticated calls (retries included) first wait for a slot in the token's
+ * Upstox quota (see lib/rateLimiter.ts); a wait that would be too long is
+ * thrown as a 429 without reaching Upstox.
+ */
+export async function upstoxRequest<T = any>(options: UpstoxRequestOptions): Promise<AxiosResponse<T>> {
+  const method = options.method || 'GET';
+  const idempotent = method === 'GET' || method === 'DELETE';
+  const maxRetries = options.maxRetries ?? (idempotent ? DEFAULT_MAX_RETRIES : 0);
+  const label = `[${options.endpoint}] ${method} ${options.path}`;
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.accessToken) {
+      const queuedMs = await acquireUpstoxSlot(options.accessToken);
+      if (queuedMs > 0) console.log(`⏳ ${label} queued ${queuedMs}ms for the rate limit`);
+    }
+
+    const started = Date.now();
+
+    try {
+      console.log(`📡 ${label}${attempt > 0 ? ` (retry ${attempt}/${maxRetries})` : ''}`);
+
+      const response = await axios.request<T>({
+        baseURL: UPSTOX_BASE_URL,
+        url: options.path,
+        method,
+        params: options.params,
+        data: options.data,
+        headers: {
+          'Accept': 'application/json',
+          ...(options.accessToken ? { 'Authorization': `Bearer ${options.accessToken}` } : {}),
+          ...options.headers
+        },
+        timeout: ENDPOINT_TIMEOUTS[options.endpoint]
+      });
+
+      const elapsed = Date.now() - started;
+      console.log(`✓ ${label} → ${response.status} in ${elapsed}ms`);
+      recordUpstreamCall(options.endpoint, classifyOutcome(response.status), elapsed, attempt > 0);
+      return response;
+    } catch (error: any) {
+      const status = error.response?.status ?? error.code ?? 'network error';
+      const elapsed = Date.now() - started;
+      console.error(`✗ ${label} → ${status} in ${elapsed}ms: ${error.message}`);
+      recordUpstreamCall(options.endpoint, classifyOutcome(error.response?.status, error.code), elapsed, attempt > 0);
+
+      if (attempt >= maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delay = retryDelay(attempt, error);
+      console.warn(`↻ ${label} retrying in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export interface UpstreamFailure {
+  status: number;
+  code: ApiErrorCode;
+  message: string;
+  upstoxStatus?: number;
+  retryAfterMs?: number | null;
+}
+
+/**
+ * Classify a failed upstoxRequest (other than a 401) the way the proxy routes report it
+ */
+export function describeUpstreamError(error: any, fallbackMessage: string): UpstreamFailure {
+  const status = error.response?.status;
+  const upstoxMessage = error.response?.data?.errors?.[0]?.message || error.response?.data?.message;
+
+  // Still rate limited after all retries
+  if (status === 429) {
+    return {
+      status: 429,
+      code: 'RATE_LIMITED',
+      message: 'Rate limit exceeded. Please wait a moment before retrying.',
+      retryAfterMs: parseRetryAfter(error.response.headers?.['retry-after'])
+    };
+  }
+
+  if (error.response) {
+    return { status, code: 'UPSTREAM_ERROR', message: upstoxMessage || error.message, upstoxStatus: status };
+  }
+
+  // Timeouts and network errors
+  if (error.code === 'ECONNABORTED') {
+    return { status: 504, code: 'UPSTREAM_TIMEOUT', message: error.message || fallbackMessage };
+  }
+  return { status: 502, code: 'UPSTREAM_UNAVAILABLE', message: error.message || fallbackMessage };
+}
+
+/**
+ * Map a failed upstoxRequest to the proxy routes' JSON error responses
+ */
+export function upstreamErrorResponse(
+  error: any,
+  request: NextRequest,
+  profileId: string,
+  fallbackMessage: string
+) {
+  // Upstox rejected the token - drop the profile so the client re-authenticates
+  if (error.response?.status === 401) {
+    const upstoxMessage = error.response.data?.errors?.[0]?.message || error.response.data?.message;
+    return sessionExpiredResponse(request, profileId, upstoxMessage);
+  }
+
+  const { status, code, message, ...extra } = describeUpstreamError(error, fallbackMessage);
+  return errorResponse(status, code, message, extra);
+}
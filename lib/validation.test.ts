@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { crossListingSchema, parseInput, quotesSchema } from './validation';
+
+// Well under the ~1s a backtracking list regex needed for inputs of this size
+const FAST_MS = 50;
+
+function timed<T>(fn: () => T): { result: T; ms: number } {
+  const started = performance.now();
+  const result = fn();
+  return { result, ms: performance.now() - started };
+}
+
+test('instrument key lists accept spaced keys and reject bad entries', () => {
+  const ok = parseInput(quotesSchema, { instruments: 'NSE_EQ|INE002A01018 , NSE_INDEX|Nifty 50' });
+  assert.equal(ok.ok, true);
+
+  for (const instruments of ['NSE_EQ|INE002A01018,', 'NSE_EQ|INE002A01018,,NSE_EQ|X', 'RELIANCE', `NSE_EQ|${'A'.repeat(120)}`]) {
+    assert.equal(parseInput(quotesSchema, { instruments }).ok, false, instruments);
+  }
+});
+
+test('a long invalid instrument key list is rejected quickly', () => {
+  const instruments = `${Array(500).fill('NSE_EQ|A ').join(',')}!`;
+  const { result, ms } = timed(() => parseInput(quotesSchema, { instruments }));
+
+  assert.equal(result.ok, false);
+  assert.ok(ms < FAST_MS, `took ${ms.toFixed(1)}ms`);
+});
+
+test('a long invalid cross-listing id list is rejected quickly', () => {
+  assert.equal(parseInput(crossListingSchema, { ids: 'RELIANCE, BSE_EQ|INE467B01029,INE009A01021' }).ok, true);
+
+  const ids = `${Array(500).fill('A ').join(',')}!`;
+  const { result, ms } = timed(() => parseInput(crossListingSchema, { ids }));
+
+  assert.equal(result.ok, false);
+  assert.ok(ms < FAST_MS, `took ${ms.toFixed(1)}ms`);
+});
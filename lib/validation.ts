@@ -0,0 +1,436 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiErrorBody, ApiErrorCode, ValidationIssue } from './apiErrors';
+
+/**
+ * Declarative input schemas for the /api routes.
+ * Routes parse their query string or body through one of these before anything
+ * reaches Upstox, so bad input comes back as INVALID_REQUEST with per-field details
+ * instead of an opaque upstream message.
+ */
+
+export interface FieldSpec {
+  required?: boolean;
+  default?: string;
+  oneOf?: readonly string[];
+  pattern?: RegExp;
+  patternMessage?: string;
+  integer?: boolean;
+  date?: boolean; // YYYY-MM-DD, must be a real calendar date
+  maxLength?: number;
+  // Comma-separated list, each trimmed entry checked on its own - a single regex over
+  // the whole list backtracks exponentially when entries may contain spaces
+  listOf?: { pattern: RegExp; maxLength: number; message: string };
+}
+
+export interface Schema<F extends Record<string, FieldSpec> = Record<string, FieldSpec>> {
+  fields: F;
+  // Cross-field rules, run only once every field is individually valid
+  check?: (values: SchemaValues<F>) => ValidationIssue[];
+}
+
+type Guaranteed = { required: true } | { default: string };
+
+export type SchemaValues<F extends Record<string, FieldSpec>> = {
+  [K in keyof F]: F[K] extends Guaranteed ? string : string | undefined;
+};
+
+export type ParseResult<F extends Record<string, FieldSpec>> =
+  | { ok: true; value: SchemaValues<F> }
+  | { ok: false; issues: ValidationIssue[] };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isCalendarDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+}
+
+function checkField(field: string, spec: FieldSpec, value: string): string | null {
+  if (spec.maxLength && value.length > spec.maxLength) {
+    return `must be at most ${spec.maxLength} characters`;
+  }
+  if (spec.oneOf && !spec.oneOf.includes(value)) {
+    return `must be one of: ${spec.oneOf.join(', ')}`;
+  }
+  if (spec.integer && !/^\d+$/.test(value)) {
+    return 'must be a positive whole number';
+  }
+  if (spec.date && !isCalendarDate(value)) {
+    return 'must be a date in YYYY-MM-DD format';
+  }
+  if (spec.pattern && !spec.pattern.test(value)) {
+    return spec.patternMessage || 'has an invalid format';
+  }
+  if (spec.listOf) {
+    const { pattern, maxLength, message } = spec.listOf;
+    const invalid = value.split(',').some(entry => {
+      const item = entry.trim();
+      return !item || item.length > maxLength || !pattern.test(item);
+    });
+    if (invalid) return message;
+  }
+  return null;
+}
+
+export function defineSchema<F extends Record<string, FieldSpec>>(schema: Schema<F>): Schema<F> {
+  return schema;
+}
+
+/**
+ * Validate raw input (query params or a JSON body) against a schema.
+ * Numbers are accepted for string fields so JSON bodies can send `"1"` or `1`.
+ */
+export function parseInput<F extends Record<string, FieldSpec>>(
+  schema: Schema<F>,
+  input: Record<string, unknown>
+): ParseResult<F> {
+  const issues: ValidationIssue[] = [];
+  const values: Record<string, string | undefined> = {};
+
+  for (const [field, spec] of Object.entries(schema.fields)) {
+    const raw = input[field];
+
+    if (raw === undefined || raw === null || raw === '') {
+      if (spec.required) issues.push({ field, message: 'is required' });
+      values[field] = spec.default;
+      continue;
+    }
+
+    if (typeof raw !== 'string' && typeof raw !== 'number') {
+      issues.push({ field, message: 'must be a string' });
+      continue;
+    }
+
+    const value = String(raw).trim();
+    const problem = checkField(field, spec, value);
+    if (problem) {
+      issues.push({ field, message: problem });
+    } else {
+      values[field] = value;
+    }
+  }
+
+  if (issues.length === 0 && schema.check) {
+    issues.push(...schema.check(values as SchemaValues<F>));
+  }
+
+  return issues.length > 0
+    ? { ok: false, issues }
+    : { ok: true, value: values as SchemaValues<F> };
+}
+
+export function queryInput(request: NextRequest): Record<string, string> {
+  return Object.fromEntries(request.nextUrl.searchParams.entries());
+}
+
+/**
+ * JSON body as a plain object; null when the body is not a JSON object
+ */
+export async function jsonInput(request: NextRequest): Promise<Record<string, unknown> | null> {
+  const body = await request.json().catch(() => null);
+  return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+}
+
+/**
+ * Shared error envelope: { error, code, details?, ...extra }
+ */
+export function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  error: string,
+  extra: Omit<Partial<ApiErrorBody>, 'error' | 'code'> = {}
+) {
+  return NextResponse.json({ error, code, ...extra }, { status });
+}
+
+export function validationErrorResponse(issues: ValidationIssue[]) {
+  const summary = issues.map(i => `${i.field} ${i.message}`).join('; ');
+  return errorResponse(400, 'INVALID_REQUEST', `Invalid request: ${summary}`, { details: issues });
+}
+
+export const invalidBodyResponse = () =>
+  validationErrorResponse([{ field: 'body', message: 'must be a JSON object' }]);
+
+// ----- Shared field rules -----
+
+// e.g. NSE_EQ|INE002A01018, NSE_INDEX|Nifty 50
+export const INSTRUMENT_KEY_PATTERN = /^[A-Z][A-Z_]*\|[A-Za-z0-9 &()._-]+$/;
+const INSTRUMENT_KEY_MAX_LENGTH = 100;
+
+const instrumentKeyField = {
+  required: true,
+  maxLength: INSTRUMENT_KEY_MAX_LENGTH,
+  pattern: INSTRUMENT_KEY_PATTERN,
+  patternMessage: 'must look like SEGMENT|IDENTIFIER (e.g. NSE_EQ|INE002A01018)'
+} as const;
+
+const profileField = { maxLength: 64 } as const;
+
+// ----- Historical candles -----
+
+export const CANDLE_UNITS = ['minutes', 'hours', 'days', 'weeks', 'months'] as const;
+export type CandleUnit = typeof CANDLE_UNITS[number];
+
+// Interval ranges Upstox V3 accepts per unit
+export const INTERVAL_BOUNDS: Record<CandleUnit, [number, number]> = {
+  minutes: [1, 300],
+  hours: [1, 5],
+  days: [1, 1],
+  weeks: [1, 1],
+  months: [1, 1]
+};
+
+// Upstox has no minute/hour candles before this date
+export const INTRADAY_HISTORY_START = '2022-01-01';
+
+function intervalIssues(unit: string, interval: string): ValidationIssue[] {
+  const [min, max] = INTERVAL_BOUNDS[unit as CandleUnit];
+  const value = parseInt(interval);
+
+  if (value >= min && value <= max) return [];
+  return [{
+    field: 'interval',
+    message: min === max ? `must be ${min} for ${unit}` : `must be between ${min} and ${max} for ${unit}`
+  }];
+}
+
+// Shared by the single and batch historical schemas
+function candleRangeIssues({ unit, interval, fromDate, toDate }: {
+  unit: string;
+  interval: string;
+  fromDate: string;
+  toDate: string;
+}): ValidationIssue[] {
+  const issues = intervalIssues(unit, interval);
+
+  if (fromDate > toDate) {
+    issues.push({ field: 'fromDate', message: 'must be on or before toDate' });
+  }
+
+  if ((unit === 'minutes' || unit === 'hours') && fromDate < INTRADAY_HISTORY_START) {
+    issues.push({ field: 'fromDate', message: `${unit} candles are only available from ${INTRADAY_HISTORY_START}` });
+  }
+
+  return issues;
+}
+
+export const historicalSchema = defineSchema({
+  fields: {
+    instrumentKey: instrumentKeyField,
+    unit: { default: 'days', oneOf: CANDLE_UNITS },
+    interval: { default: '1', integer: true },
+    fromDate: { required: true, date: true },
+    toDate: { required: true, date: true },
+    includeToday: { oneOf: ['true', 'false'] }
+  },
+  check: candleRangeIssues
+});
+
+// ----- Intraday candles -----
+
+// The intraday API has no week or month bars
+export const INTRADAY_UNITS = ['minutes', 'hours', 'days'] as const;
+
+export const intradaySchema = defineSchema({
+  fields: {
+    instrumentKey: instrumentKeyField,
+    unit: { default: 'minutes', oneOf: INTRADAY_UNITS },
+    interval: { default: '1', integer: true }
+  },
+  check: ({ unit, interval }) => intervalIssues(unit, interval)
+});
+
+// ----- Market quotes -----
+
+export const QUOTE_TYPES = ['full', 'ltp', 'ohlc'] as const;
+
+export const quotesSchema = defineSchema({
+  fields: {
+    instruments: {
+      required: true,
+      listOf: {
+        pattern: INSTRUMENT_KEY_PATTERN,
+        maxLength: INSTRUMENT_KEY_MAX_LENGTH,
+        message: 'must be a comma-separated list of instrument keys'
+      }
+    },
+    type: { default: 'full', oneOf: QUOTE_TYPES }
+  }
+});
+
+// ----- Option chain -----
+
+export const optionExpiriesSchema = defineSchema({
+  fields: {
+    underlying: instrumentKeyField // e.g. NSE_INDEX|Nifty 50, NSE_EQ|INE002A01018
+  }
+});
+
+export const optionChainSchema = defineSchema({
+  fields: {
+    underlying: instrumentKeyField,
+    expiry: { required: true, date: true }
+  }
+});
+
+// ----- Historical batch -----
+
+// Instruments per /api/historical/batch call
+export const MAX_BATCH_INSTRUMENTS = 500;
+
+export const historicalBatchSchema = defineSchema({
+  fields: {
+    instruments: quotesSchema.fields.instruments,
+    unit: historicalSchema.fields.unit,
+    interval: historicalSchema.fields.interval,
+    fromDate: historicalSchema.fields.fromDate,
+    toDate: historicalSchema.fields.toDate,
+    includeToday: historicalSchema.fields.includeToday
+  },
+  check: (values) => {
+    const issues = candleRangeIssues(values);
+    if (values.instruments.split(',').length > MAX_BATCH_INSTRUMENTS) {
+      issues.push({ field: 'instruments', message: `must list at most ${MAX_BATCH_INSTRUMENTS} instruments` });
+    }
+    return issues;
+  }
+});
+
+// ----- Live feed -----
+
+export const FEED_MODES = ['ltpc', 'full'] as const;
+// Per browser stream; the shared upstream socket allows far more
+export const MAX_STREAM_INSTRUMENTS = 200;
+
+export const streamSchema = defineSchema({
+  fields: {
+    instruments: quotesSchema.fields.instruments,
+    mode: { default: 'ltpc', oneOf: FEED_MODES }
+  },
+  check: ({ instruments }) => instruments.split(',').length > MAX_STREAM_INSTRUMENTS
+    ? [{ field: 'instruments', message: `must list at most ${MAX_STREAM_INSTRUMENTS} instruments` }]
+    : []
+});
+
+// ----- Holdings -----
+
+export const holdingsSchema = defineSchema({
+  fields: {
+    profile: profileField
+  }
+});
+
+// ----- Auth -----
+
+export const loginSchema = defineSchema({
+  fields: {
+    state: {
+      required: true,
+      pattern: /^[a-f0-9]{32,128}$/,
+      patternMessage: 'must be 32-128 lowercase hex characters'
+    }
+  }
+});
+
+export const tokenSchema = defineSchema({
+  fields: {
+    code: { required: true, maxLength: 512 },
+    // Checked against the state cookie separately (INVALID_STATE)
+    state: { maxLength: 128 }
+  }
+});
+
+export const switchProfileSchema = defineSchema({
+  fields: {
+    profile: { ...profileField, required: true }
+  }
+});
+
+export const logoutSchema = defineSchema({
+  fields: {
+    profile: profileField
+  }
+});
+
+// ----- Diagnostics -----
+
+export const metricsSchema = defineSchema({
+  fields: {
+    format: { default: 'json', oneOf: ['json', 'prometheus'] }
+  }
+});
+
+// ----- Instruments -----
+
+export const instrumentsSchema = defineSchema({
+  fields: {
+    // Index and F&O symbols contain spaces, e.g. "Nifty 50", "NIFTY 24 OCT 24500 CE"
+    symbol: { maxLength: 50, pattern: /^[A-Za-z0-9&._ -]+$/, patternMessage: 'must be a trading symbol' },
+    name: { maxLength: 100, pattern: /^[A-Za-z0-9&.,'()\/ -]+$/, patternMessage: 'must be a company name' },
+    exchange: { default: 'NSE', pattern: /^[A-Z]+$/, patternMessage: 'must be an exchange code like NSE' },
+    segment: { maxLength: 20, pattern: /^[A-Z]+_[A-Z]+$/, patternMessage: 'must be a segment like NSE_EQ or BSE_INDEX' },
+    type: { maxLength: 20, pattern: /^[A-Z_]+$/, patternMessage: 'must be an instrument type like EQ, INDEX or FUT' },
+    // map: { SYMBOL: key }; full: Instrument[] with name, ISIN, lot size, expiry, ...
+    format: { default: 'map', oneOf: ['map', 'full'] }
+  },
+  check: ({ symbol, name }) =>
+    symbol && name ? [{ field: 'name', message: 'cannot be combined with symbol' }] : []
+});
+
+// Results per /api/instruments/search call
+export const MAX_SEARCH_RESULTS = 50;
+
+export const instrumentSearchSchema = defineSchema({
+  fields: {
+    q: { required: true, maxLength: 60, pattern: /^[A-Za-z0-9&.,'()_ -]+$/, patternMessage: 'must be a symbol or company name' },
+    exchange: { pattern: instrumentsSchema.fields.exchange.pattern, patternMessage: instrumentsSchema.fields.exchange.patternMessage },
+    segment: instrumentsSchema.fields.segment,
+    type: instrumentsSchema.fields.type,
+    limit: { default: '10', integer: true }
+  },
+  check: ({ limit }) => {
+    const value = parseInt(limit);
+    return value >= 1 && value <= MAX_SEARCH_RESULTS
+      ? []
+      : [{ field: 'limit', message: `must be between 1 and ${MAX_SEARCH_RESULTS}` }];
+  }
+});
+
+// Symbols / keys / ISINs per /api/instruments/cross-listing call
+export const MAX_CROSS_LISTING_IDS = 500;
+
+export const crossListingSchema = defineSchema({
+  fields: {
+    ids: {
+      required: true,
+      listOf: {
+        pattern: /^[A-Za-z0-9&|._ -]+$/,
+        maxLength: 100,
+        message: 'must be a comma-separated list of symbols, instrument keys or ISINs'
+      }
+    }
+  },
+  check: ({ ids }) => ids.split(',').length > MAX_CROSS_LISTING_IDS
+    ? [{ field: 'ids', message: `must list at most ${MAX_CROSS_LISTING_IDS} entries` }]
+    : []
+});
+
+export const INGEST_SOURCES = ['upstox', 'file'] as const;
+
+export const instrumentIngestSchema = defineSchema({
+  fields: {
+    source: { default: 'upstox', oneOf: INGEST_SOURCES },
+    // A file name inside data/instruments/incoming - no directories
+    file: { maxLength: 200, pattern: /^[A-Za-z0-9._-]+$/, patternMessage: 'must be a file name in the incoming directory' },
+    force: { oneOf: ['true', 'false'] }
+  },
+  check: ({ source, file }) =>
+    source === 'file' && !file ? [{ field: 'file', message: 'is required when source is file' }] : []
+});
+
+export const instrumentVersionsSchema = defineSchema({
+  fields: {
+    version: { maxLength: 40, pattern: /^\d{8}T\d{6}Z-[a-f0-9]{8}$/, patternMessage: 'must be a snapshot version' }
+  }
+});
@@ -2,6 +2,10 @@
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
+  experimental: {
+    // Native WebSocket client + runtime .proto loading for the market feed relay
+    serverComponentsExternalPackages: ['ws', 'protobufjs'],
+  },
   transpilePackages: [
     'react-financial-charts',
     '@react-financial-charts/annotations',
@@ -0,0 +1,77 @@
+/**
+ * Refresh the instrument master from the command line (see lib/instrumentIngest.ts).
+ *
+ * Usage:
+ *   npm run instruments:ingest                       # download Upstox's daily file
+ *   npm run instruments:ingest -- --file complete.json.gz
+ *   npm run instruments:ingest -- --url http://localhost:4010/market-quote/instruments/exchange/complete.json.gz
+ *   npm run instruments:ingest -- --force            # accept a large number of delistings
+ *
+ * Exits 1 when the file is rejected or the download fails; the live master is untouched.
+ */
+import path from 'path';
+import { InstrumentFileError, IngestSource, ingestInstrumentFile } from '../lib/instrumentIngest';
+
+function parseArgs(argv: string[]): { source: IngestSource; force: boolean } {
+    let source: IngestSource = { kind: 'upstox' };
+    let force = false;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--file' && argv[i + 1]) {
+            source = { kind: 'file', filePath: path.resolve(argv[++i]) };
+        } else if (arg === '--url' && argv[i + 1]) {
+            source = { kind: 'upstox', url: argv[++i] };
+        } else if (arg === '--force') {
+            force = true;
+        } else {
+            throw new Error(`Unknown argument: ${arg}`);
+        }
+    }
+
+    return { source, force };
+}
+
+async function main() {
+    const { source, force } = parseArgs(process.argv.slice(2));
+    const { unchanged, snapshot, diff } = await ingestInstrumentFile(source, { force });
+
+    if (unchanged) {
+        console.log(`Already current: ${snapshot.version}`);
+        return;
+    }
+
+    console.log(`\nVersion:  ${snapshot.version}`);
+    console.log(`Rows:     ${snapshot.rows}`);
+    console.log(`Segments: ${Object.entries(snapshot.segments).map(([s, n]) => `${s} ${n}`).join(', ')}`);
+
+    if (!diff) {
+        console.log('Diff:     none (no previous master)');
+        return;
+    }
+
+    console.log(`Diff:     +${diff.added.length} added, -${diff.delisted.length} delisted, ` +
+        `${diff.keyChanged.length} key changes, ${diff.renamed.length} renamed`);
+
+    const preview = <T>(label: string, list: T[], format: (item: T) => string) => {
+        if (list.length === 0) return;
+        console.log(`\n${label}:`);
+        list.slice(0, 20).forEach(item => console.log(`  ${format(item)}`));
+        if (list.length > 20) console.log(`  ... and ${list.length - 20} more`);
+    };
+
+    preview('Added', diff.added, e => `${e.segment} ${e.trading_symbol} (${e.instrument_key})`);
+    preview('Delisted', diff.delisted, e => `${e.segment} ${e.trading_symbol} (${e.instrument_key})`);
+    preview('Key changed', diff.keyChanged, e => `${e.segment} ${e.trading_symbol}: ${e.from} -> ${e.to}`);
+    preview('Renamed', diff.renamed, e => `${e.segment} ${e.instrument_key}: ${e.from} -> ${e.to}`);
+}
+
+main().catch(error => {
+    if (error instanceof InstrumentFileError) {
+        console.error('✗ Instrument file rejected:');
+        error.issues.forEach(issue => console.error(`  - ${issue}`));
+    } else {
+        console.error('✗ Ingestion failed:', error.message);
+    }
+    process.exit(1);
+});
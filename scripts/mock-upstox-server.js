@@ -0,0 +1,538 @@
+/**
+ * Local mock of the Upstox API for offline development and demos.
+ *
+ * Serves recorded fixtures from scripts/fixtures/upstox for the endpoints the
+ * console uses: OAuth dialog + token exchange, logout, long-term holdings,
+ * market quotes (ltp / ohlc / full), V3 historical and intraday candles, option
+ * contracts and chains, the gzipped instrument master, and the V3 market data
+ * WebSocket feed (protobuf), which replays feed.json in a loop.
+ *
+ * Usage:
+ *   npm run mock
+ *   UPSTOX_API_BASE_URL=http://localhost:4010 npm run dev
+ *
+ * Daily candles inside the recorded window come straight from the fixture;
+ * other units and dates are generated deterministically from the instrument key,
+ * so repeat requests always return the same bars. Recorded option expiries are
+ * moved forward to keep their days-to-expiry, so implied volatilities stay realistic.
+ */
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+const zlib = require('zlib');
+const protobuf = require('protobufjs');
+const { WebSocketServer } = require('ws');
+
+const PORT = parseInt(process.env.MOCK_UPSTOX_PORT || '4010');
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'upstox');
+
+const DAY_MS = 86400000;
+const IST_OFFSET_MS = 5.5 * 3600000;
+const MARKET_OPEN_MINUTES = 9 * 60 + 15;
+const MARKET_CLOSE_MINUTES = 15 * 60 + 30;
+
+function loadFixture(name) {
+    return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8'));
+}
+
+const tokenFixture = loadFixture('token.json');
+const holdingsFixture = loadFixture('holdings.json');
+const quotesFixture = loadFixture('quotes.json');
+const dailyCandles = loadFixture('historical-day.json');
+const feedFixture = loadFixture('feed.json');
+const optionChainFixture = loadFixture('option-chain.json');
+const instrumentMaster = zlib.gzipSync(JSON.stringify(loadFixture('instrument-master.json')));
+
+const FEED_PATH = '/v3/feed/market-data-feed';
+const FeedResponse = protobuf
+    .loadSync(path.join(__dirname, '..', 'lib', 'proto', 'MarketDataFeedV3.proto'))
+    .lookupType('com.upstox.marketdatafeederv3udapi.rpc.proto.FeedResponse');
+
+const MOCK_AUTH_CODE = 'mock-auth-code';
+
+function sendJson(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+// Same envelope Upstox uses for errors
+function sendError(res, status, errorCode, message) {
+    sendJson(res, status, {
+        status: 'error',
+        errors: [{ errorCode, message, propertyPath: null, invalidValue: null }]
+    });
+}
+
+function isAuthorized(req) {
+    return req.headers['authorization'] === `Bearer ${tokenFixture.access_token}`;
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Small deterministic PRNG so generated candles are stable across requests
+ */
+function seededRandom(seedText) {
+    let seed = 0;
+    for (const ch of seedText) seed = (seed * 31 + ch.charCodeAt(0)) >>> 0;
+    return () => {
+        seed = (seed * 1664525 + 1013904223) >>> 0;
+        return seed / 4294967296;
+    };
+}
+
+function basePrice(instrumentKey) {
+    const quote = quotesFixture[instrumentKey];
+    if (quote) return quote.last_price;
+    return 100 + seededRandom(instrumentKey)() * 1900;
+}
+
+function formatTimestamp(ms) {
+    // Upstox timestamps are IST with an explicit offset
+    return new Date(ms + IST_OFFSET_MS).toISOString().replace(/\.\d{3}Z$/, '+05:30');
+}
+
+function isWeekday(dateMs) {
+    const day = new Date(dateMs).getUTCDay();
+    return day !== 0 && day !== 6;
+}
+
+/**
+ * Bar start times (epoch ms) between two dates for a unit/interval
+ */
+function barTimes(unit, interval, fromDate, toDate) {
+    const times = [];
+    const start = Date.parse(`${fromDate}T00:00:00Z`);
+    const end = Date.parse(`${toDate}T00:00:00Z`);
+    const step = parseInt(interval) || 1;
+
+    for (let day = start; day <= end; day += DAY_MS) {
+        const date = new Date(day);
+
+        // Weekly bars start on Monday, monthly bars on the 1st
+        if (unit === 'weeks') {
+            if (date.getUTCDay() === 1) times.push(day - IST_OFFSET_MS);
+            continue;
+        }
+        if (unit === 'months') {
+            if (date.getUTCDate() === 1) times.push(day - IST_OFFSET_MS);
+            continue;
+        }
+
+        if (!isWeekday(day)) continue;
+
+        if (unit === 'minutes' || unit === 'hours') {
+            const stepMinutes = unit === 'hours' ? step * 60 : step;
+            for (let m = MARKET_OPEN_MINUTES; m < MARKET_CLOSE_MINUTES; m += stepMinutes) {
+                times.push(day + m * 60000 - IST_OFFSET_MS);
+            }
+        } else {
+            times.push(day - IST_OFFSET_MS);
+        }
+    }
+
+    return times;
+}
+
+function generateCandles(instrumentKey, unit, interval, fromDate, toDate) {
+    const price = basePrice(instrumentKey);
+
+    return barTimes(unit, interval, fromDate, toDate).map(time => {
+        const random = seededRandom(`${instrumentKey}:${unit}:${interval}:${time}`);
+        // Slow drift around the fixture price, keyed by time so any sub-range matches
+        const drift = Math.sin(time / (DAY_MS * 45)) * 0.12 + Math.sin(time / (DAY_MS * 7)) * 0.03;
+        const open = price * (1 + drift + (random() - 0.5) * 0.01);
+        const close = open * (1 + (random() - 0.5) * 0.02);
+        const high = Math.max(open, close) * (1 + random() * 0.008);
+        const low = Math.min(open, close) * (1 - random() * 0.008);
+        const volume = Math.round(50000 + random() * 5000000);
+
+        return [
+            formatTimestamp(time),
+            +open.toFixed(2),
+            +high.toFixed(2),
+            +low.toFixed(2),
+            +close.toFixed(2),
+            volume,
+            0
+        ];
+    }).reverse();
+}
+
+function historicalCandles(instrumentKey, unit, interval, toDate, fromDate) {
+    const recorded = dailyCandles[instrumentKey];
+
+    if (recorded && unit === 'days' && interval === '1') {
+        const oldest = recorded[recorded.length - 1][0].slice(0, 10);
+        const newest = recorded[0][0].slice(0, 10);
+
+        if (fromDate >= oldest && toDate <= newest) {
+            return recorded.filter(c => c[0].slice(0, 10) >= fromDate && c[0].slice(0, 10) <= toDate);
+        }
+    }
+
+    return generateCandles(instrumentKey, unit, interval, fromDate, toDate);
+}
+
+/**
+ * Today's session so far - bars that haven't started yet are left out
+ */
+function intradayCandles(instrumentKey, unit, interval) {
+    const now = Date.now();
+    const today = new Date(now + IST_OFFSET_MS).toISOString().slice(0, 10);
+
+    return generateCandles(instrumentKey, unit, interval, today, today)
+        .filter(c => Date.parse(c[0]) <= now);
+}
+
+/**
+ * Quote payload keyed the way Upstox does (EXCHANGE_SEGMENT:SYMBOL)
+ */
+function marketQuotes(instrumentKeys, type) {
+    const data = {};
+
+    for (const instrumentKey of instrumentKeys) {
+        const quote = quotesFixture[instrumentKey];
+        if (!quote) continue;
+
+        const [segment] = instrumentKey.split('|');
+        const responseKey = `${segment}:${quote.symbol}`;
+
+        if (type === 'ltp') {
+            data[responseKey] = {
+                last_price: quote.last_price,
+                instrument_token: instrumentKey,
+                ltq: 1,
+                volume: quote.volume,
+                cp: quote.ohlc.close
+            };
+        } else if (type === 'ohlc') {
+            data[responseKey] = {
+                last_price: quote.last_price,
+                instrument_token: instrumentKey,
+                prev_ohlc: { ...quote.ohlc, volume: 0, ts: 0 },
+                live_ohlc: { ...quote.ohlc, close: quote.last_price, volume: quote.volume, ts: 0 }
+            };
+        } else {
+            data[responseKey] = {
+                ohlc: quote.ohlc,
+                timestamp: new Date().toISOString(),
+                instrument_token: instrumentKey,
+                symbol: quote.symbol,
+                last_price: quote.last_price,
+                volume: quote.volume,
+                average_price: quote.average_price,
+                net_change: quote.net_change,
+                total_buy_quantity: 0,
+                total_sell_quantity: 0,
+                lower_circuit_limit: +(quote.ohlc.close * 0.8).toFixed(2),
+                upper_circuit_limit: +(quote.ohlc.close * 1.2).toFixed(2),
+                last_trade_time: String(Date.now()),
+                oi: 0,
+                oi_day_high: 0,
+                oi_day_low: 0,
+                depth: { buy: [], sell: [] }
+            };
+        }
+    }
+
+    return data;
+}
+
+// ----- Option chain -----
+
+/**
+ * Recorded expiries for an underlying, moved so each is as many days from today
+ * as it was from the recording day (weekends skipped)
+ * @returns Served expiry (YYYY-MM-DD) -> recorded chain rows
+ */
+function optionExpiries(underlyingKey) {
+    const served = new Map();
+    const recorded = optionChainFixture[underlyingKey];
+    if (!recorded) return served;
+
+    const today = new Date(Date.now() + IST_OFFSET_MS).toISOString().slice(0, 10);
+    const shift = Date.parse(`${today}T00:00:00Z`) - Date.parse(`${recorded.recorded_on}T00:00:00Z`);
+
+    for (const [expiry, rows] of Object.entries(recorded.expiries)) {
+        let day = Date.parse(`${expiry}T00:00:00Z`) + shift;
+        while (!isWeekday(day)) day += DAY_MS;
+        served.set(new Date(day).toISOString().slice(0, 10), rows);
+    }
+    return served;
+}
+
+/**
+ * /v2/option/contract payload - one CE and one PE contract per recorded strike
+ */
+function optionContracts(underlyingKey) {
+    const recorded = optionChainFixture[underlyingKey];
+    const contracts = [];
+
+    optionExpiries(underlyingKey).forEach((rows, expiry) => {
+        // e.g. NIFTY 24500 CE 31 OCT 24
+        const expiryLabel = new Date(`${expiry}T00:00:00Z`)
+            .toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: '2-digit', timeZone: 'UTC' })
+            .toUpperCase();
+
+        for (const row of rows) {
+            for (const [side, type] of [['call_options', 'CE'], ['put_options', 'PE']]) {
+                const instrumentKey = row[side].instrument_key;
+                contracts.push({
+                    name: recorded.underlying_symbol,
+                    segment: 'NSE_FO',
+                    exchange: 'NSE',
+                    expiry,
+                    instrument_key: instrumentKey,
+                    exchange_token: instrumentKey.split('|')[1],
+                    trading_symbol: `${recorded.underlying_symbol} ${row.strike_price} ${type} ${expiryLabel}`,
+                    tick_size: 5,
+                    lot_size: recorded.lot_size,
+                    instrument_type: type,
+                    minimum_lot: recorded.lot_size,
+                    underlying_key: underlyingKey,
+                    underlying_type: recorded.underlying_type,
+                    underlying_symbol: recorded.underlying_symbol,
+                    strike_price: row.strike_price
+                });
+            }
+        }
+    });
+
+    return contracts;
+}
+
+async function handle(req, res) {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    const { pathname, searchParams } = url;
+
+    console.log(`📡 ${req.method} ${pathname}${url.search}`);
+
+    // OAuth dialog - approve immediately and bounce back with a code
+    if (req.method === 'GET' && pathname === '/v2/login/authorization/dialog') {
+        const redirectUri = searchParams.get('redirect_uri');
+        if (!redirectUri || searchParams.get('response_type') !== 'code') {
+            return sendError(res, 400, 'UDAPI100068', 'Check your \'client_id\' and \'redirect_uri\'; one or both are incorrect.');
+        }
+
+        const callback = new URL(redirectUri);
+        callback.searchParams.set('code', MOCK_AUTH_CODE);
+        const state = searchParams.get('state');
+        if (state) callback.searchParams.set('state', state);
+
+        res.writeHead(302, { Location: callback.toString() });
+        return res.end();
+    }
+
+    if (req.method === 'POST' && pathname === '/v2/login/authorization/token') {
+        const form = new URLSearchParams(await readBody(req));
+        if (form.get('code') !== MOCK_AUTH_CODE) {
+            return sendError(res, 400, 'UDAPI100057', 'Invalid Auth code');
+        }
+        return sendJson(res, 200, tokenFixture);
+    }
+
+    // Daily instrument file (public on assets.upstox.com) - point UPSTOX_INSTRUMENTS_URL here
+    if (req.method === 'GET' && pathname === '/market-quote/instruments/exchange/complete.json.gz') {
+        res.writeHead(200, { 'Content-Type': 'application/gzip' });
+        return res.end(instrumentMaster);
+    }
+
+    // Everything below needs the mock access token
+    if (!isAuthorized(req)) {
+        return sendError(res, 401, 'UDAPI100050', 'Invalid token used to access API');
+    }
+
+    if (req.method === 'GET' && pathname === '/v3/feed/market-data-feed/authorize') {
+        const socketUrl = `ws://localhost:${PORT}${FEED_PATH}`;
+        return sendJson(res, 200, {
+            status: 'success',
+            data: { authorizedRedirectUri: socketUrl, authorized_redirect_uri: socketUrl }
+        });
+    }
+
+    if (req.method === 'DELETE' && pathname === '/v2/logout') {
+        return sendJson(res, 200, { status: 'success', data: true });
+    }
+
+    if (req.method === 'GET' && pathname === '/v2/portfolio/long-term-holdings') {
+        return sendJson(res, 200, holdingsFixture);
+    }
+
+    const quoteMatch = pathname.match(/^\/v3\/market-quote\/(ltp|ohlc|quotes)$/);
+    if (req.method === 'GET' && quoteMatch) {
+        const keys = (searchParams.get('instrument_key') || '').split(',').filter(Boolean);
+        if (keys.length === 0) {
+            return sendError(res, 400, 'UDAPI1009', 'instrument_key is required');
+        }
+        return sendJson(res, 200, { status: 'success', data: marketQuotes(keys, quoteMatch[1]) });
+    }
+
+    // Unknown underlyings and expiries answer with an empty list, like Upstox
+    if (req.method === 'GET' && pathname === '/v2/option/contract') {
+        const underlyingKey = searchParams.get('instrument_key');
+        if (!underlyingKey) {
+            return sendError(res, 400, 'UDAPI1009', 'instrument_key is required');
+        }
+        return sendJson(res, 200, { status: 'success', data: optionContracts(underlyingKey) });
+    }
+
+    if (req.method === 'GET' && pathname === '/v2/option/chain') {
+        const underlyingKey = searchParams.get('instrument_key');
+        const expiry = searchParams.get('expiry_date');
+        if (!underlyingKey || !expiry) {
+            return sendError(res, 400, 'UDAPI1009', 'instrument_key and expiry_date are required');
+        }
+        const rows = optionExpiries(underlyingKey).get(expiry) || [];
+        return sendJson(res, 200, { status: 'success', data: rows.map(row => ({ ...row, expiry })) });
+    }
+
+    // /v3/historical-candle/intraday/{instrument_key}/{unit}/{interval}
+    const intradayMatch = pathname.match(/^\/v3\/historical-candle\/intraday\/([^/]+)\/(minutes|hours|days)\/(\d+)$/);
+    if (req.method === 'GET' && intradayMatch) {
+        const [, encodedKey, unit, interval] = intradayMatch;
+        return sendJson(res, 200, {
+            status: 'success',
+            data: { candles: intradayCandles(decodeURIComponent(encodedKey), unit, interval) }
+        });
+    }
+
+    // /v3/historical-candle/{instrument_key}/{unit}/{interval}/{to_date}/{from_date}
+    const historicalMatch = pathname.match(/^\/v3\/historical-candle\/([^/]+)\/(\w+)\/(\d+)\/(\d{4}-\d{2}-\d{2})\/(\d{4}-\d{2}-\d{2})$/);
+    if (req.method === 'GET' && historicalMatch) {
+        const [, encodedKey, unit, interval, toDate, fromDate] = historicalMatch;
+        const instrumentKey = decodeURIComponent(encodedKey);
+
+        if (fromDate > toDate) {
+            return sendError(res, 400, 'UDAPI1022', 'to_date must be greater than or equal to from_date');
+        }
+
+        return sendJson(res, 200, {
+            status: 'success',
+            data: { candles: historicalCandles(instrumentKey, unit, interval, toDate, fromDate) }
+        });
+    }
+
+    sendError(res, 404, 'UDAPI100060', `Mock server has no fixture for ${req.method} ${pathname}`);
+}
+
+// ----- Market data feed -----
+
+// Running state per instrument so day OHLC stays consistent across frames
+const feedState = new Map();
+
+function feedPrice(instrumentKey, frame) {
+    let state = feedState.get(instrumentKey);
+    if (!state) {
+        const quote = quotesFixture[instrumentKey];
+        const price = quote ? quote.last_price : +basePrice(instrumentKey).toFixed(2);
+        state = { ltp: price, ltq: 1, cp: quote ? quote.ohlc.close : price, open: price, high: price, low: price, volume: 0 };
+        feedState.set(instrumentKey, state);
+    }
+
+    // Snapshots report the current state without moving it
+    if (!frame) return state;
+
+    // Recorded instruments follow the fixture; anything else drifts randomly
+    const recorded = frame[instrumentKey];
+    const ltp = recorded ? recorded.ltp : +(state.ltp * (1 + (Math.random() - 0.5) * 0.002)).toFixed(2);
+    const ltq = recorded ? recorded.ltq : Math.ceil(Math.random() * 50);
+
+    state.ltp = ltp;
+    state.ltq = ltq;
+    state.high = Math.max(state.high, ltp);
+    state.low = Math.min(state.low, ltp);
+    state.volume += ltq;
+    return state;
+}
+
+function encodeFeed(type, subscriptions, frame) {
+    const now = Date.now();
+    const feeds = {};
+
+    subscriptions.forEach((mode, instrumentKey) => {
+        const state = feedPrice(instrumentKey, frame);
+        const ltpc = { ltp: state.ltp, ltt: now, ltq: state.ltq, cp: state.cp };
+
+        feeds[instrumentKey] = mode === 'ltpc'
+            ? { ltpc, requestMode: 'ltpc' }
+            : {
+                fullFeed: {
+                    marketFF: {
+                        ltpc,
+                        marketOHLC: {
+                            ohlc: [{ interval: '1d', open: state.open, high: state.high, low: state.low, close: state.ltp, vol: state.volume, ts: now }]
+                        },
+                        atp: +((state.high + state.low + state.ltp) / 3).toFixed(2),
+                        vtt: state.volume,
+                        oi: 0
+                    }
+                },
+                requestMode: 'full_d5'
+            };
+    });
+
+    return FeedResponse.encode(FeedResponse.fromObject({ type, feeds, currentTs: now })).finish();
+}
+
+function attachFeed(httpServer) {
+    const wss = new WebSocketServer({ server: httpServer, path: FEED_PATH });
+
+    wss.on('connection', (socket) => {
+        console.log('📡 Feed client connected');
+        const subscriptions = new Map(); // instrument key -> mode
+        let frameIndex = 0;
+
+        socket.on('message', (data) => {
+            let request;
+            try {
+                request = JSON.parse(data.toString());
+            } catch {
+                return;
+            }
+
+            const keys = request.data?.instrumentKeys || [];
+            if (request.method === 'sub' || request.method === 'change_mode') {
+                keys.forEach(key => subscriptions.set(key, request.data.mode === 'ltpc' ? 'ltpc' : 'full'));
+                // Snapshot for the new keys, like Upstox's initial_feed
+                const added = new Map(keys.map(key => [key, subscriptions.get(key)]));
+                socket.send(encodeFeed('initial_feed', added, null));
+            } else if (request.method === 'unsub') {
+                keys.forEach(key => subscriptions.delete(key));
+            }
+        });
+
+        const timer = setInterval(() => {
+            if (subscriptions.size === 0) return;
+            const frame = feedFixture.frames[frameIndex++ % feedFixture.frames.length];
+            socket.send(encodeFeed('live_feed', subscriptions, frame));
+        }, feedFixture.intervalMs);
+
+        socket.on('close', () => {
+            clearInterval(timer);
+            console.log('📡 Feed client disconnected');
+        });
+    });
+}
+
+const server = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+        console.error('❌ Mock handler failed:', error);
+        sendError(res, 500, 'UDAPI100500', error.message);
+    });
+});
+
+attachFeed(server);
+
+server.listen(PORT, () => {
+    console.log(`✓ Mock Upstox API listening on http://localhost:${PORT}`);
+    console.log(`  Start the console with UPSTOX_API_BASE_URL=http://localhost:${PORT}`);
+    console.log(`  Access token: ${tokenFixture.access_token}`);
+});